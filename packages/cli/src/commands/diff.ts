@@ -7,6 +7,9 @@ import {
   type DiffReport,
   type ScenarioDiff,
   type DiffStatus,
+  type EfficiencyChange,
+  type LatencyChange,
+  type RunMeta,
 } from "@fabriklabs/core";
 import { loadConfig } from "../config.js";
 
@@ -14,6 +17,10 @@ export interface DiffOptions {
   before: string;
   after: string;
   threshold?: number;
+  /** Relative growth in agent tokens, cost, tool calls or turns that counts as a regression */
+  efficiencyThreshold?: number;
+  /** How many times slower a latency percentile may get before it counts as a regression */
+  latencyRatio?: number;
   json?: boolean;
 }
 
@@ -33,12 +40,14 @@ export async function runDiff(options: DiffOptions): Promise<void> {
 
     const result = checkRegressions(store, beforeVersion, afterVersion, {
       regressionThreshold: options.threshold ?? config.diff?.regressionThreshold ?? 0.05,
+      efficiencyThreshold: options.efficiencyThreshold ?? config.diff?.efficiencyThreshold,
+      latencyRatio: options.latencyRatio ?? config.diff?.latencyRatio,
     });
 
     if (options.json) {
       console.log(JSON.stringify(result.diff, null, 2));
     } else {
-      printDiffTable(result.diff);
+      printDiffTable(result.diff, result.before, result.after);
     }
 
     process.exitCode = result.exitCode;
@@ -61,7 +70,7 @@ function resolveVersion(store: SqliteTraceStore, version: string): string {
   return version;
 }
 
-function printDiffTable(diff: DiffReport): void {
+function printDiffTable(diff: DiffReport, before: RunMeta, after: RunMeta): void {
   console.log(chalk.bold(`  Comparing: ${diff.beforeVersion} → ${diff.afterVersion}`));
   console.log();
 
@@ -88,6 +97,11 @@ function printDiffTable(diff: DiffReport): void {
     diff.summary.stable > 0 ? chalk.dim(`${diff.summary.stable} stable`) : null,
     diff.summary.improvements > 0 ? chalk.green(`${diff.summary.improvements} improved`) : null,
     diff.summary.regressions > 0 ? chalk.red(`${diff.summary.regressions} regressed`) : null,
+    diff.summary.efficiencyRegressions > 0
+      ? chalk.red(`${diff.summary.efficiencyRegressions} less efficient`)
+      : null,
+    diff.summary.perfRegressions > 0 ? chalk.red(`${diff.summary.perfRegressions} slower`) : null,
+    diff.summary.judgeErrors > 0 ? chalk.yellow(`${diff.summary.judgeErrors} judge errors`) : null,
     diff.summary.added > 0 ? chalk.yellow(`${diff.summary.added} added`) : null,
     diff.summary.removed > 0 ? chalk.yellow(`${diff.summary.removed} removed`) : null,
   ]
@@ -96,13 +110,74 @@ function printDiffTable(diff: DiffReport): void {
 
   console.log(`  ${parts}`);
 
+  const runStats = formatRunStats(before, after);
+  if (runStats) console.log(chalk.dim(`  ${runStats}`));
+
+  const lessEfficient = diff.scenarios.filter((s) => s.efficiency);
+  if (lessEfficient.length > 0) {
+    console.log();
+    console.log(chalk.yellow.bold("  Efficiency:"));
+    for (const s of lessEfficient) {
+      console.log(chalk.yellow(`  ${s.scenario}`));
+      console.log(chalk.dim(`    ${s.efficiency!.map(formatEfficiencyChange).join(" · ")}`));
+    }
+  }
+
+  const slower = diff.scenarios.filter((s) => s.latency);
+  if (slower.length > 0) {
+    console.log();
+    console.log(chalk.yellow.bold("  Latency:"));
+    for (const s of slower) {
+      console.log(chalk.yellow(`  ${s.scenario}`));
+      console.log(chalk.dim(`    ${s.latency!.map(formatLatencyChange).join(" · ")}`));
+    }
+  }
+
   if (diff.hasRegressions) {
+    const { regressions, efficiencyRegressions, perfRegressions } = diff.summary;
     console.log();
-    console.log(chalk.red.bold(`  ⚠ ${diff.summary.regressions} regression(s) detected`));
+    console.log(
+      chalk.red.bold(
+        `  ⚠ ${[
+          regressions > 0 ? `${regressions} regression(s)` : "",
+          efficiencyRegressions > 0 ? `${efficiencyRegressions} efficiency regression(s)` : "",
+          perfRegressions > 0 ? `${perfRegressions} perf regression(s)` : "",
+        ]
+          .filter(Boolean)
+          .join(" and ")} detected`
+      )
+    );
   }
   console.log();
 }
 
+/** Run-level figures saved with both runs; older runs were stored without them */
+function formatRunStats(before: RunMeta, after: RunMeta): string {
+  const stats: string[] = [];
+  if (before.usage && after.usage) {
+    const { total: b } = before.usage;
+    const { total: a } = after.usage;
+    stats.push(
+      `LLM cost $${b.cost.toFixed(4)} → $${a.cost.toFixed(4)} (${b.total.toLocaleString()} → ${a.total.toLocaleString()} tokens)`
+    );
+  }
+  if (before.latency && after.latency) {
+    stats.push(`agent p90 ${Math.round(before.latency.p90)}ms → ${Math.round(after.latency.p90)}ms`);
+  }
+  return stats.join(" · ");
+}
+
+function formatEfficiencyChange(c: EfficiencyChange): string {
+  const value = (n: number) => (c.metric === "cost" ? `$${n.toFixed(4)}` : String(Math.round(n * 10) / 10));
+  const label = c.metric === "toolCalls" ? "tool calls" : c.metric;
+  return `${label} ${value(c.before)} → ${value(c.after)} (+${Math.round(c.change * 100)}%)`;
+}
+
+function formatLatencyChange(c: LatencyChange): string {
+  const ratio = Number.isFinite(c.ratio) ? ` (${c.ratio.toFixed(1)}x)` : "";
+  return `${c.percentile} ${Math.round(c.before)}ms → ${Math.round(c.after)}ms${ratio}`;
+}
+
 function formatDiffRow(s: ScenarioDiff): string[] {
   const name = truncate(s.scenario, 32);
 
@@ -137,10 +212,16 @@ function formatStatus(status: DiffStatus): string {
   switch (status) {
     case "regression":
       return chalk.red.bold("REGRESSED");
+    case "efficiency-regression":
+      return chalk.red("LESS EFFICIENT");
+    case "perf-regression":
+      return chalk.red("SLOWER");
     case "improvement":
       return chalk.green("improved");
     case "stable":
       return chalk.dim("stable");
+    case "judge-error":
+      return chalk.yellow("JUDGE ERR");
     case "added":
       return chalk.yellow("added");
     case "removed":
@@ -7,15 +7,18 @@ import {
   readAgentProfile,
   writeAgentProfile,
   HttpAdapter,
-  ChatGPTProvider,
-  OpenAIProvider,
-  AnthropicProvider,
-  type LLMProvider,
+  loadCustomAdapter,
+  UsageTracker,
+  parseBudget,
+  printUsage,
+  type AgentConfig,
+  type AgentAuthConfig,
   type AgentProfile,
   type AgentSource,
   type FileReader,
 } from "@fabriklabs/core";
 import { loadConfig } from "../config.js";
+import { createLlmCallOptions, createLlmProvider } from "../llm.js";
 import { LocalSandbox } from "../sandbox/local.js";
 
 export interface GenOptions {
@@ -30,6 +33,8 @@ export interface GenOptions {
   count?: number;
   categories?: string;
   output?: string;
+  /** Stop writing test files once this much is used: "2.50" (USD) or "500k tokens" */
+  budget?: string;
 }
 
 export async function runGen(options: GenOptions): Promise<void> {
@@ -46,8 +51,14 @@ export async function runGen(options: GenOptions): Promise<void> {
     // Config is optional for gen
   }
 
-  // Resolve LLM provider
-  const llmProvider = createLlmProvider(config?.llm);
+  // Resolve LLM provider, ChatGPT when there is no config
+  // Discovery's parallel file extraction shares the concurrency limit
+  const llmProvider = await createLlmProvider(config?.llm ?? { provider: "chatgpt" }, createLlmCallOptions(config?.llmCalls));
+  const usage = new UsageTracker({
+    prices: config?.usage?.prices,
+    budget: options.budget ? parseBudget(options.budget) : config?.usage?.budget,
+  });
+  const discoveryLlm = usage.wrap(llmProvider, { phase: "discovery" });
 
   const outputDir = resolve(options.output ?? "tests/generated");
   const categories = options.categories?.split(",").map((c) => c.trim());
@@ -81,18 +92,49 @@ export async function runGen(options: GenOptions): Promise<void> {
     if (source.type === "http") {
       // HTTP probe-based discovery
       const adapter = new HttpAdapter();
-      await adapter.connect({ type: "http", url: source.url });
+      const agentConfig = buildProbeConfig(source.url, config?.agent);
+      await adapter.connect(agentConfig);
 
       profile = await discoverAgent({
         source,
-        llm: llmProvider,
+        llm: discoveryLlm,
         adapter,
-        agentConfig: { type: "http", url: source.url },
+        agentConfig,
         description: options.description,
         onProgress: (msg) => console.log(chalk.dim(`  ${msg}`)),
       });
 
       await adapter.disconnect();
+    } else if (source.type === "custom") {
+      // In-process adapter module — probe it the same way as an HTTP endpoint
+      const adapter = await loadCustomAdapter(source.module);
+      const agentConfig = { type: "custom" as const, module: source.module };
+      await adapter.connect(agentConfig);
+
+      profile = await discoverAgent({
+        source,
+        llm: discoveryLlm,
+        adapter,
+        agentConfig,
+        description: options.description,
+        onProgress: (msg) => console.log(chalk.dim(`  ${msg}`)),
+      });
+
+      await adapter.disconnect();
+    } else if (source.type === "openai-assistant") {
+      // Read instructions and tool definitions straight from the Assistants API
+      profile = await discoverAgent({
+        source,
+        llm: discoveryLlm,
+        agentConfig: {
+          type: "openai-assistant",
+          assistantId: source.assistantId,
+          apiKey: config?.agent.apiKey ?? process.env.OPENAI_API_KEY,
+          baseURL: config?.agent.baseURL,
+        },
+        description: options.description,
+        onProgress: (msg) => console.log(chalk.dim(`  ${msg}`)),
+      });
     } else if (source.type === "local-dir") {
       // Local directory discovery
       const sandbox = new LocalSandbox(source.path);
@@ -108,7 +150,7 @@ export async function runGen(options: GenOptions): Promise<void> {
 
       profile = await discoverAgent({
         source,
-        llm: llmProvider,
+        llm: discoveryLlm,
         fileReader,
         description: options.description,
         onProgress: (msg) => console.log(chalk.dim(`  ${msg}`)),
@@ -134,7 +176,7 @@ export async function runGen(options: GenOptions): Promise<void> {
 
       profile = await discoverAgent({
         source: { type: "local-dir", path: tmpDir },
-        llm: llmProvider,
+        llm: discoveryLlm,
         fileReader,
         description: options.description,
         onProgress: (msg) => console.log(chalk.dim(`  ${msg}`)),
@@ -186,6 +228,7 @@ export async function runGen(options: GenOptions): Promise<void> {
     categories,
     outputDir,
     onProgress: (msg) => console.log(chalk.dim(`  ${msg}`)),
+    usage,
   });
 
   console.log();
@@ -200,18 +243,28 @@ export async function runGen(options: GenOptions): Promise<void> {
   console.log();
   console.log(chalk.bold("  Run them with: fabrik run"));
   console.log();
+
+  const usageReport = usage.report();
+  if (usageReport.total.calls > 0) printUsage(usageReport);
 }
 
 function resolveSource(
   options: GenOptions,
-  config?: { agent?: { type: string; url?: string; assistantId?: string } }
+  config?: { agent?: { type: string; url?: string; assistantId?: string; module?: string } }
 ): AgentSource {
   if (options.repo) return { type: "repo", url: options.repo };
   if (options.dir) return { type: "local-dir", path: resolve(options.dir) };
-  if (options.agent) return { type: "http", url: options.agent };
+  if (options.agent) {
+    // Anything that isn't an HTTP(S) URL is treated as a custom adapter module path
+    return /^https?:\/\//i.test(options.agent)
+      ? { type: "http", url: options.agent }
+      : { type: "custom", module: options.agent };
+  }
   if (options.assistant) return { type: "openai-assistant", assistantId: options.assistant };
 
   // Fall back to config
+  if (config?.agent?.type === "custom" && config.agent.module)
+    return { type: "custom", module: config.agent.module };
   if (config?.agent?.url) return { type: "http", url: config.agent.url };
   if (config?.agent?.assistantId)
     return { type: "openai-assistant", assistantId: config.agent.assistantId };
@@ -221,6 +274,21 @@ function resolveSource(
   );
 }
 
+/**
+ * Probe config for an HTTP source. Headers and auth from fabrik.config.ts are
+ * reused only for the configured agent's origin, so credentials never go to another host.
+ */
+function buildProbeConfig(
+  url: string,
+  agent?: { type: string; url?: string; headers?: Record<string, string>; auth?: AgentAuthConfig }
+): AgentConfig {
+  const sameOrigin =
+    agent?.type === "http" && !!agent.url && new URL(agent.url).origin === new URL(url).origin;
+  return sameOrigin
+    ? { type: "http", url, headers: agent.headers, auth: agent.auth }
+    : { type: "http", url };
+}
+
 function describeSource(source: AgentSource): string {
   switch (source.type) {
     case "repo":
@@ -231,51 +299,7 @@ function describeSource(source: AgentSource): string {
       return `HTTP endpoint ${source.url}`;
     case "openai-assistant":
       return `OpenAI Assistant ${source.assistantId}`;
+    case "custom":
+      return `custom adapter ${source.module}`;
   }
 }
-
-function createLlmProvider(llmConfig?: {
-  provider: string;
-  model?: string;
-  auth?: string;
-  apiKey?: string;
-  accessToken?: string;
-  authPath?: string;
-  baseURL?: string;
-}): LLMProvider {
-  const provider = llmConfig?.provider ?? "chatgpt";
-
-  if (provider === "chatgpt") {
-    return new ChatGPTProvider({
-      model: llmConfig?.model,
-      accessToken: llmConfig?.accessToken,
-      authPath: llmConfig?.authPath,
-    });
-  }
-
-  if (provider === "anthropic") {
-    const apiKey = llmConfig?.apiKey ?? process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        "Anthropic API key required. Set ANTHROPIC_API_KEY or configure in fabrik.config.ts"
-      );
-    }
-    return new AnthropicProvider({ apiKey, model: llmConfig?.model });
-  }
-
-  if (provider === "openai") {
-    const apiKey = llmConfig?.apiKey ?? process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error(
-        "OpenAI API key required. Set OPENAI_API_KEY or configure in fabrik.config.ts"
-      );
-    }
-    return new OpenAIProvider({
-      apiKey,
-      model: llmConfig?.model,
-      baseURL: llmConfig?.baseURL,
-    });
-  }
-
-  throw new Error(`Unknown LLM provider: "${provider}". Use "chatgpt", "openai", or "anthropic".`);
-}
@@ -0,0 +1,150 @@
+import { resolve } from "node:path";
+import { readFile, writeFile } from "node:fs/promises";
+import chalk from "chalk";
+import Table from "cli-table3";
+import {
+  calibrateJudges,
+  validateCalibrationDataset,
+  readAgentProfile,
+  type CalibrationMetrics,
+  type CalibrationReport,
+  type FallbackOptions,
+  type Judge,
+} from "@fabriklabs/core";
+import { loadConfig, type LlmConfig } from "../config.js";
+import { createJudgePanel, createLlmCallOptions, createLlmProvider } from "../llm.js";
+
+export interface CalibrateOptions {
+  dataset: string;
+  /** Only calibrate examples of this assertion type */
+  type?: string;
+  parallel?: number;
+  /** Write the full report (metrics and every vote) as JSON */
+  output?: string;
+}
+
+export async function runJudgeCalibrate(options: CalibrateOptions): Promise<void> {
+  console.log();
+  console.log(chalk.bold("  Fabrik — Judge calibration"));
+  console.log(chalk.dim("  " + "─".repeat(40)));
+  console.log();
+
+  const config = await loadConfig();
+  const llmCalls = createLlmCallOptions(config.llmCalls);
+  const judges: Judge[] = config.judge?.panel?.length
+    ? await createJudgePanel(config.judge.panel, llmCalls)
+    : Array.isArray(config.llm)
+      ? [await createChainJudge(config.llm, llmCalls)]
+      : await createJudgePanel([config.llm], llmCalls);
+  if (judges.some((j) => j.name === "panel")) {
+    throw new Error('"panel" is reserved for the majority vote; give that judge another name');
+  }
+
+  let dataset = validateCalibrationDataset(await readDataset(resolve(options.dataset)));
+  if (options.type) {
+    dataset = dataset.filter((e) => e.type === options.type);
+    if (dataset.length === 0) throw new Error(`No ${options.type} examples in ${options.dataset}`);
+  }
+
+  console.log(chalk.dim(`  ${dataset.length} labeled examples from ${options.dataset}`));
+  console.log(chalk.dim(`  Judges: ${judges.map((j) => j.name).join(", ")}`));
+  console.log();
+
+  const agentProfile = (await readAgentProfile(process.cwd())) ?? undefined;
+  const report = await calibrateJudges(dataset, judges, {
+    agentProfile,
+    parallelism: options.parallel,
+    onProgress: (done, total) => process.stdout.write(chalk.dim(`\r  Judged ${done}/${total}`)),
+  });
+  process.stdout.write("\n\n");
+
+  printCalibrationTable(report);
+
+  if (options.output) {
+    const outputPath = resolve(options.output);
+    await writeFile(outputPath, JSON.stringify(report, null, 2), "utf-8");
+    console.log(chalk.dim(`  JSON report → ${outputPath}`));
+    console.log();
+  }
+}
+
+/** A fallback chain calibrated as one judge, named after its providers */
+async function createChainJudge(chain: LlmConfig[], calls: FallbackOptions): Promise<Judge> {
+  const provider = await createLlmProvider(chain, calls);
+  return { name: provider.name ?? chain.map((c) => c.provider).join(" > "), provider };
+}
+
+/** A JSON array, or JSON Lines with one example per line */
+async function readDataset(path: string): Promise<unknown> {
+  const text = await readFile(path, "utf-8");
+  if (path.endsWith(".jsonl")) {
+    return text
+      .split("\n")
+      .map((line, i) => ({ line: line.trim(), i }))
+      .filter(({ line }) => line.length > 0)
+      .map(({ line, i }) => {
+        try {
+          return JSON.parse(line);
+        } catch (e) {
+          throw new Error(`${path}:${i + 1}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      });
+  }
+  return JSON.parse(text);
+}
+
+function printCalibrationTable(report: CalibrationReport): void {
+  const table = new Table({
+    head: [
+      chalk.bold("Judge"),
+      chalk.bold("Type"),
+      chalk.bold("N"),
+      chalk.bold("Accuracy"),
+      chalk.bold("Kappa"),
+      chalk.bold("TP/FP/FN/TN"),
+      chalk.bold("Score bias"),
+      chalk.bold("Errors"),
+    ],
+    style: { head: [], border: [] },
+  });
+
+  for (const m of report.metrics) {
+    table.push(formatMetricsRow(m));
+  }
+
+  console.log(table.toString());
+  console.log();
+
+  const panel = report.metrics.find((m) => m.judge === "panel" && m.type === "all");
+  if (panel?.disagreements) {
+    console.log(chalk.yellow(`  Judges disagreed on ${panel.disagreements} of ${panel.count + panel.errors} examples`));
+    console.log();
+  }
+}
+
+function formatMetricsRow(m: CalibrationMetrics): string[] {
+  const judge = m.judge === "panel" ? chalk.bold("panel (majority)") : m.judge;
+  const type = m.type === "all" ? chalk.bold("all") : m.type;
+  const { tp, fp, fn, tn } = m.confusion;
+  const bias =
+    m.scoreBias === undefined ? chalk.dim("—") : `${m.scoreBias > 0 ? "+" : ""}${m.scoreBias.toFixed(2)}`;
+
+  return [
+    judge,
+    type,
+    String(m.count),
+    m.count === 0 ? chalk.dim("—") : `${Math.round(m.accuracy * 100)}%`,
+    m.count === 0 ? chalk.dim("—") : formatKappa(m.kappa),
+    `${tp}/${fp}/${fn}/${tn}`,
+    bias,
+    m.errors > 0 ? chalk.red(String(m.errors)) : chalk.dim("0"),
+  ];
+}
+
+/** Landis & Koch bands: below 0.4 is weak agreement with the human labels */
+function formatKappa(kappa: number): string {
+  const text = kappa.toFixed(2);
+  if (kappa >= 0.6) return chalk.green(text);
+  if (kappa >= 0.4) return chalk.yellow(text);
+  return chalk.red(text);
+}
@@ -0,0 +1,54 @@
+import { resolve } from "node:path";
+import chalk from "chalk";
+import { cosmiconfig } from "cosmiconfig";
+import { startMockAgent, validateMockScript, type MockRequestLog } from "@fabriklabs/core";
+
+export interface MockOptions {
+  script: string;
+  port?: number;
+  host?: string;
+}
+
+const DEFAULT_PORT = 4010;
+
+export async function runMock(options: MockOptions): Promise<void> {
+  console.log();
+  console.log(chalk.bold("  Fabrik — Mock agent"));
+  console.log(chalk.dim("  " + "─".repeat(40)));
+  console.log();
+
+  const scriptPath = resolve(options.script);
+  // cosmiconfig picks the YAML, JSON or TS/JS loader from the file extension
+  const result = await cosmiconfig("fabrik-mock").load(scriptPath);
+  if (!result || result.isEmpty) {
+    throw new Error(`Mock script ${scriptPath} is empty`);
+  }
+  const script = validateMockScript(result.config);
+
+  const agent = await startMockAgent(script, {
+    port: options.port ?? script.port ?? DEFAULT_PORT,
+    host: options.host,
+    onRequest: printRequest,
+  });
+
+  console.log(chalk.green(`  ✓ Listening on ${agent.url}`));
+  console.log(chalk.dim(`    ${script.rules.length} rule(s) from ${options.script}`));
+  console.log(chalk.dim(`    Point agent.url at it, or run: fabrik gen --agent ${agent.url}`));
+  console.log(chalk.dim("    Ctrl+C to stop"));
+  console.log();
+
+  await new Promise<void>((done) => {
+    process.once("SIGINT", () => {
+      agent.close().finally(done);
+    });
+  });
+}
+
+function printRequest(entry: MockRequestLog): void {
+  const message = entry.request?.message ?? "";
+  const preview = message.length > 60 ? message.slice(0, 57) + "..." : message;
+  const rule =
+    entry.rule === null ? chalk.red("no match") : entry.rule === "fallback" ? "fallback" : `rule ${entry.rule + 1}`;
+  const status = entry.status < 300 ? chalk.green(String(entry.status)) : chalk.red(String(entry.status));
+  console.log(`  ${status}  ${JSON.stringify(preview)} → ${rule} ${chalk.dim(`(${entry.durationMs}ms)`)}`);
+}
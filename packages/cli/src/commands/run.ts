@@ -1,23 +1,38 @@
-import { resolve } from "node:path";
+import { dirname, join, resolve } from "node:path";
 import { writeFile } from "node:fs/promises";
 import chalk from "chalk";
 import {
   ScenarioRunner,
   HttpAdapter,
+  SubprocessAdapter,
+  OpenAIAssistantAdapter,
+  WebSocketAdapter,
+  loadCustomAdapter,
+  CassetteStore,
+  CassetteAdapter,
+  CassetteLLMProvider,
+  DEFAULT_CASSETTE_DIR,
   loadTestFiles,
   printTerminalReport,
+  runLatency,
   generateJsonReport,
   generateHtmlReport,
   SqliteTraceStore,
+  JudgeCache,
+  UsageTracker,
+  parseBudget,
   readAgentProfile,
-  ChatGPTProvider,
-  OpenAIProvider,
-  AnthropicProvider,
   type AgentAdapter,
   type AgentConfig,
+  type ResponseShape,
+  type HttpSessionConfig,
+  type HttpRetryConfig,
+  type AgentAuthConfig,
   type LLMProvider,
+  type Judge,
 } from "@fabriklabs/core";
 import { loadConfig } from "../config.js";
+import { createJudgePanel, createLlmCallOptions, createLlmProvider } from "../llm.js";
 
 export interface RunOptions {
   test?: string;
@@ -28,6 +43,17 @@ export interface RunOptions {
   output?: string;
   save?: boolean;
   version?: string;
+  /** Record agent turns and LLM calls to cassettes */
+  record?: boolean;
+  /** Serve agent turns and LLM calls from cassettes instead of the network */
+  replay?: boolean;
+  cassetteDir?: string;
+  /** Run each scenario this many times and judge it on its pass rate */
+  samples?: number;
+  /** false with --no-judge-cache */
+  judgeCache?: boolean;
+  /** Stop starting scenarios once judging has used this much: "2.50" (USD) or "500k tokens" */
+  budget?: string;
 }
 
 export async function runRun(options: RunOptions): Promise<void> {
@@ -38,103 +64,200 @@ export async function runRun(options: RunOptions): Promise<void> {
 
   const config = await loadConfig();
 
-  // Create agent adapter
-  const adapter = createAdapter(config.agent);
+  if (options.record && options.replay) {
+    throw new Error("--record and --replay cannot be combined");
+  }
+  const cassettes =
+    options.record || options.replay
+      ? new CassetteStore(resolve(options.cassetteDir ?? DEFAULT_CASSETTE_DIR))
+      : undefined;
+  if (cassettes) {
+    const mode = options.record ? "Recording to" : "Replaying from";
+    console.log(chalk.dim(`  ${mode} cassettes in ${cassettes.dir}`));
+    console.log();
+  }
+
+  const usage = new UsageTracker({
+    prices: config.usage?.prices,
+    budget: options.budget ? parseBudget(options.budget) : config.usage?.budget,
+  });
+
+  // Create agent adapter — replay never touches the live agent
   const agentConfig = buildAgentConfig(config.agent);
+  const adapter: AgentAdapter = options.replay
+    ? new CassetteAdapter(cassettes!, "replay")
+    : options.record
+      ? new CassetteAdapter(cassettes!, "record", await createAdapter(config.agent))
+      : await createAdapter(config.agent);
   await adapter.connect(agentConfig);
 
   // Create LLM provider (optional, needed for LLM assertions)
+  const llmCalls = createLlmCallOptions(config.llmCalls);
   let llmProvider: LLMProvider | undefined;
-  try {
-    llmProvider = createLlmProvider(config.llm);
-  } catch {
-    console.log(chalk.yellow("  Warning: No LLM provider configured. LLM assertions will fail."));
-    console.log();
+  if (options.replay) {
+    llmProvider = new CassetteLLMProvider(cassettes!, "replay");
+  } else {
+    try {
+      llmProvider = await createLlmProvider(config.llm, llmCalls);
+      if (options.record) llmProvider = new CassetteLLMProvider(cassettes!, "record", llmProvider);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      console.log(chalk.yellow(`  Warning: No LLM provider available (${reason}). LLM assertions will fail.`));
+      console.log();
+    }
   }
 
-  // Load agent profile if available (for grounded LLM judge assertions)
-  const agentProfile = await readAgentProfile(process.cwd()) ?? undefined;
-  if (agentProfile) {
-    const age = Date.now() - new Date(agentProfile.discoveredAt).getTime();
-    const days = Math.floor(age / (1000 * 60 * 60 * 24));
-    if (days > 7) {
-      console.log(chalk.yellow(`  Warning: Agent profile is ${days} days old. Run \`fabrik gen --refresh\` to update.`));
+  // Judge panel (optional): every judge votes on each LLM assertion
+  let judges: Judge[] | undefined;
+  if (config.judge?.panel?.length) {
+    if (cassettes) {
+      console.log(chalk.yellow("  Warning: Judge panels are not recorded to cassettes; using the llm provider alone."));
+      console.log();
+    } else {
+      judges = await createJudgePanel(config.judge.panel, llmCalls);
+      console.log(chalk.dim(`  Judge panel: ${judges.map((j) => j.name).join(", ")}`));
       console.log();
     }
   }
 
-  // Discover tests
-  const testsDir = resolve(config.tests ?? "./tests");
-  console.log(chalk.dim(`  Loading tests from ${testsDir}...`));
+  // Judge cache: cassettes already make judge calls free, and recording needs the real calls
+  const storePath = resolve(config.store?.path ?? ".fabrik/traces.db");
+  const judgeCache =
+    options.judgeCache !== false && config.judge?.cache?.enabled !== false && !cassettes
+      ? new JudgeCache(join(dirname(storePath), "judge-cache.db"), {
+          ttlMs: config.judge?.cache?.ttlHours !== undefined ? config.judge.cache.ttlHours * 60 * 60 * 1000 : undefined,
+          maxEntries: config.judge?.cache?.maxEntries,
+        })
+      : undefined;
+
+  // The judge cache and the agent's processes or sockets are released, and the turns
+  // recorded so far saved, even when the run throws
+  try {
+    const agentPrice = config.agent.model ? config.usage?.prices?.[config.agent.model] : undefined;
+    if (config.agent.model && !agentPrice) {
+      console.log(chalk.yellow(`  Warning: No price for agent model "${config.agent.model}" in usage.prices; agent cost is not estimated.`));
+      console.log();
+    }
+
+    // Load agent profile if available (for grounded LLM judge assertions)
+    const agentProfile = await readAgentProfile(process.cwd()) ?? undefined;
+    if (agentProfile) {
+      const age = Date.now() - new Date(agentProfile.discoveredAt).getTime();
+      const days = Math.floor(age / (1000 * 60 * 60 * 24));
+      if (days > 7) {
+        console.log(chalk.yellow(`  Warning: Agent profile is ${days} days old. Run \`fabrik gen --refresh\` to update.`));
+        console.log();
+      }
+    }
 
-  const scenarios = await loadTestFiles(testsDir, options.test);
+    // Discover tests
+    const testsDir = resolve(config.tests ?? "./tests");
+    console.log(chalk.dim(`  Loading tests from ${testsDir}...`));
 
-  if (scenarios.length === 0) {
-    console.log(chalk.yellow("  No test files found."));
-    console.log(chalk.dim("  Run `fabrik gen --agent <url>` to generate tests."));
+    const scenarios = await loadTestFiles(testsDir, options.test);
+
+    if (scenarios.length === 0) {
+      console.log(chalk.yellow("  No test files found."));
+      console.log(chalk.dim("  Run `fabrik gen --agent <url>` to generate tests."));
+      console.log();
+      return;
+    }
+
+    // Filter by tag
+    let filtered = scenarios;
+    if (options.tag) {
+      filtered = scenarios.filter((s) => s.tags?.includes(options.tag!));
+    }
+
+    console.log(chalk.dim(`  Found ${filtered.length} scenarios`));
     console.log();
-    await adapter.disconnect();
-    return;
-  }
 
-  // Filter by tag
-  let filtered = scenarios;
-  if (options.tag) {
-    filtered = scenarios.filter((s) => s.tags?.includes(options.tag!));
-  }
+    // Run scenarios
+    const runner = new ScenarioRunner(adapter, llmProvider, {
+      timeout: options.timeout ?? config.eval?.defaultTimeout ?? 30000,
+      agentProfile,
+      retries: config.eval?.retries,
+      parallelism: options.parallel ?? config.eval?.parallelism,
+      samples: options.samples ?? config.eval?.samples,
+      judges,
+      judgeCache,
+      usage,
+      agentPrice,
+    });
 
-  console.log(chalk.dim(`  Found ${filtered.length} scenarios`));
-  console.log();
+    const results = await runner.runAll(filtered);
+    const usageReport = usage.report();
 
-  // Run scenarios
-  const runner = new ScenarioRunner(adapter, llmProvider, {
-    timeout: options.timeout ?? config.eval?.defaultTimeout ?? 30000,
-    agentProfile,
-    retries: config.eval?.retries,
-    parallelism: options.parallel ?? config.eval?.parallelism,
-  });
+    // Report
+    printTerminalReport(results, { usage: usageReport });
 
-  const results = await runner.runAll(filtered);
+    if (results.length < filtered.length) {
+      console.log(
+        chalk.yellow(`  LLM budget exceeded: ${filtered.length - results.length} of ${filtered.length} scenarios were not run`)
+      );
+      console.log();
+    }
 
-  // Report
-  printTerminalReport(results);
+    if (judgeCache) {
+      const { hits, misses } = judgeCache.stats();
+      if (hits + misses > 0) {
+        const rate = Math.round((hits / (hits + misses)) * 100);
+        console.log(chalk.dim(`  Judge cache: ${hits} hits, ${misses} misses (${rate}% hit rate)`));
+        console.log();
+      }
+    }
 
-  // Save to trace store if --save
-  if (options.save) {
-    const dbPath = resolve(config.store?.path ?? ".fabrik/traces.db");
-    const version =
-      options.version ?? `run-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+    // Save to trace store if --save
+    if (options.save) {
+      const version =
+        options.version ?? `run-${new Date().toISOString().replace(/[:.]/g, "-")}`;
 
-    const store = new SqliteTraceStore(dbPath);
-    const meta = store.saveRun(version, results);
-    store.close();
+      const store = new SqliteTraceStore(storePath);
+      let meta;
+      try {
+        meta = store.saveRun(version, results, { usage: usageReport, latency: runLatency(results) });
+      } finally {
+        store.close();
+      }
 
-    console.log(chalk.dim(`  Saved as version "${version}" (${meta.id.slice(0, 8)})`));
-    console.log();
-  }
+      console.log(chalk.dim(`  Saved as version "${version}" (${meta.id.slice(0, 8)})`));
+      console.log();
+    }
 
-  // Write report file if --output
-  if (options.output) {
-    const outputPath = resolve(options.output);
-    if (options.format === "json") {
-      await writeFile(outputPath, generateJsonReport(results, { version: options.version }), "utf-8");
-      console.log(chalk.dim(`  JSON report → ${outputPath}`));
-    } else if (options.format === "html") {
-      await writeFile(outputPath, generateHtmlReport(results, { version: options.version }), "utf-8");
-      console.log(chalk.dim(`  HTML report → ${outputPath}`));
+    // Write report file if --output
+    if (options.output) {
+      const outputPath = resolve(options.output);
+      if (options.format === "json") {
+        await writeFile(outputPath, generateJsonReport(results, { version: options.version, usage: usageReport }), "utf-8");
+        console.log(chalk.dim(`  JSON report → ${outputPath}`));
+      } else if (options.format === "html") {
+        await writeFile(outputPath, generateHtmlReport(results, { version: options.version, usage: usageReport }), "utf-8");
+        console.log(chalk.dim(`  HTML report → ${outputPath}`));
+      }
+      console.log();
     }
-    console.log();
+  } finally {
+    judgeCache?.close();
+    await adapter.disconnect();
+    await cassettes?.save();
   }
-
-  await adapter.disconnect();
 }
 
-function createAdapter(agentConfig: { type: string }): AgentAdapter {
+async function createAdapter(agentConfig: { type: string; module?: string }): Promise<AgentAdapter> {
   switch (agentConfig.type) {
     case "http":
       return new HttpAdapter();
+    case "subprocess":
+      return new SubprocessAdapter();
+    case "openai-assistant":
+      return new OpenAIAssistantAdapter();
+    case "websocket":
+      return new WebSocketAdapter();
+    case "custom":
+      if (!agentConfig.module) throw new Error("agent.module is required for custom agents");
+      return loadCustomAdapter(agentConfig.module);
     default:
-      throw new Error(`Agent type "${agentConfig.type}" is not yet supported. Use "http" for now.`);
+      throw new Error(`Agent type "${agentConfig.type}" is not yet supported. Use "http", "subprocess", "openai-assistant", "websocket" or "custom".`);
   }
 }
 
@@ -142,10 +265,34 @@ function buildAgentConfig(agent: {
   type: string;
   url?: string;
   headers?: Record<string, string>;
+  auth?: AgentAuthConfig;
   requestFormat?: "messages" | "legacy";
   bodyTemplate?: (msg: string, ctx?: { conversationId: string; turns: { role: string; message: string }[] }) => unknown;
   responseParser?: (data: unknown) => string;
+  responseShape?: string | ResponseShape;
   streaming?: boolean;
+  session?: HttpSessionConfig;
+  timeoutMs?: number;
+  retry?: number | HttpRetryConfig;
+  rateLimit?: { requestsPerSecond: number; burst?: number };
+  command?: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  assistantId?: string;
+  apiKey?: string;
+  baseURL?: string;
+  pollIntervalMs?: number;
+  runTimeoutMs?: number;
+  toolHandler?: (name: string, args: Record<string, unknown>) => unknown | Promise<unknown>;
+  messageTemplate?: (msg: string, ctx?: { conversationId: string; turns: { role: string; message: string }[] }) => unknown;
+  endOfTurn?: {
+    sentinel?: string;
+    idleMs?: number;
+    predicate?: (frame: unknown, frames: unknown[]) => boolean;
+    timeoutMs?: number;
+  };
+  module?: string;
 }): AgentConfig {
   if (agent.type === "http") {
     if (!agent.url) throw new Error("agent.url is required for HTTP agents");
@@ -153,51 +300,54 @@ function buildAgentConfig(agent: {
       type: "http",
       url: agent.url,
       headers: agent.headers,
+      auth: agent.auth,
       requestFormat: agent.requestFormat,
       bodyTemplate: agent.bodyTemplate,
       responseParser: agent.responseParser,
+      responseShape: agent.responseShape,
       streaming: agent.streaming,
+      session: agent.session,
+      timeoutMs: agent.timeoutMs,
+      retry: agent.retry,
+      rateLimit: agent.rateLimit,
     };
   }
-  throw new Error(`Unsupported agent type: ${agent.type}`);
-}
-
-function createLlmProvider(llmConfig?: {
-  provider: string;
-  model?: string;
-  auth?: string;
-  apiKey?: string;
-  accessToken?: string;
-  authPath?: string;
-  baseURL?: string;
-}): LLMProvider {
-  if (!llmConfig) throw new Error("No LLM config");
-
-  const provider = llmConfig.provider ?? "chatgpt";
-
-  if (provider === "chatgpt") {
-    return new ChatGPTProvider({
-      model: llmConfig.model,
-      accessToken: llmConfig.accessToken,
-      authPath: llmConfig.authPath,
-    });
+  if (agent.type === "subprocess") {
+    if (!agent.command) throw new Error("agent.command is required for subprocess agents");
+    return {
+      type: "subprocess",
+      command: agent.command,
+      args: agent.args,
+      cwd: agent.cwd ? resolve(agent.cwd) : undefined,
+      env: agent.env,
+    };
   }
-
-  if (provider === "anthropic") {
-    const apiKey = llmConfig.apiKey ?? process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) throw new Error("Anthropic API key required");
-    return new AnthropicProvider({ apiKey, model: llmConfig.model });
+  if (agent.type === "openai-assistant") {
+    if (!agent.assistantId) throw new Error("agent.assistantId is required for OpenAI Assistant agents");
+    return {
+      type: "openai-assistant",
+      assistantId: agent.assistantId,
+      apiKey: agent.apiKey ?? process.env.OPENAI_API_KEY,
+      baseURL: agent.baseURL,
+      pollIntervalMs: agent.pollIntervalMs,
+      runTimeoutMs: agent.runTimeoutMs,
+      toolHandler: agent.toolHandler,
+    };
   }
-
-  if (provider === "openai") {
-    const apiKey = llmConfig.apiKey ?? process.env.OPENAI_API_KEY;
-    if (!apiKey) throw new Error("OpenAI API key required");
-    return new OpenAIProvider({
-      apiKey,
-      model: llmConfig.model,
-      baseURL: llmConfig.baseURL,
-    });
+  if (agent.type === "websocket") {
+    if (!agent.url) throw new Error("agent.url is required for WebSocket agents");
+    return {
+      type: "websocket",
+      url: agent.url,
+      headers: agent.headers,
+      messageTemplate: agent.messageTemplate,
+      responseParser: agent.responseParser,
+      endOfTurn: agent.endOfTurn,
+    };
   }
-
-  throw new Error(`Unknown LLM provider: "${provider}". Use "chatgpt", "openai", or "anthropic".`);
+  if (agent.type === "custom") {
+    if (!agent.module) throw new Error("agent.module is required for custom agents");
+    return { type: "custom", module: agent.module };
+  }
+  throw new Error(`Unsupported agent type: ${agent.type}`);
 }
@@ -1,33 +1,97 @@
 import { cosmiconfig } from "cosmiconfig";
+import type {
+  AgentAuthConfig,
+  HttpRetryConfig,
+  HttpSessionConfig,
+  PriceTable,
+  ResponseShape,
+  UsageBudget,
+} from "@fabriklabs/core";
 
 export interface FabrikConfig {
   agent: {
-    type: "http" | "subprocess" | "openai-assistant" | "custom";
+    type: "http" | "subprocess" | "openai-assistant" | "websocket" | "custom";
     url?: string;
     headers?: Record<string, string>;
+    /** HTTP agents: bearer token from a command, OAuth2 client credentials, or HMAC request signing */
+    auth?: AgentAuthConfig;
     /** "messages" sends {messages: [{role,content}]} (OpenAI/Vercel AI SDK format).
      *  "legacy" sends {message, conversation_id}. Default: "messages". */
     requestFormat?: "messages" | "legacy";
     /** Custom function to build the request body */
     bodyTemplate?: (msg: string, ctx?: { conversationId: string; turns: { role: string; message: string }[] }) => unknown;
-    /** Custom function to extract text from the response */
+    /** Custom function to extract text from the response (for WebSocket agents: from the turn's frames) */
     responseParser?: (data: unknown) => string;
+    /** JSON response shape: "openai-chat", "openai-responses", "anthropic", "ai-sdk", "generic",
+     *  or a custom ResponseShape. Default: auto-detect. */
+    responseShape?: string | ResponseShape;
     /** Enable streaming response handling (for AI SDK / SSE endpoints) */
     streaming?: boolean;
+    /** Server-side sessions: where the session id comes from (idFrom), how it is sent back (sendAs),
+     *  optional create/delete endpoints, and per-conversation cookies */
+    session?: HttpSessionConfig;
+    /** HTTP agents: per-request timeout, retries on 408/429/5xx and network errors, request rate limit */
+    timeoutMs?: number;
+    retry?: number | HttpRetryConfig;
+    rateLimit?: { requestsPerSecond: number; burst?: number };
+    /** Subprocess agents: executable and arguments, spoken to over JSON lines on stdin/stdout */
     command?: string;
     args?: string[];
+    cwd?: string;
+    env?: Record<string, string>;
+    /** OpenAI Assistant agents: assistant id, API key (defaults to OPENAI_API_KEY) and optional API base URL */
     assistantId?: string;
+    apiKey?: string;
+    baseURL?: string;
+    /** OpenAI Assistant agents: run status poll interval (default 500ms) and run timeout (default 120000ms) */
+    pollIntervalMs?: number;
+    runTimeoutMs?: number;
+    /** OpenAI Assistant agents: produces the output for each tool call the assistant requests. Without it, tool calls get a stub error. */
+    toolHandler?: (name: string, args: Record<string, unknown>) => unknown | Promise<unknown>;
+    /** WebSocket agents: builds the frame sent for each turn. Default: {type:"message", message, conversation_id} */
+    messageTemplate?: (msg: string, ctx?: { conversationId: string; turns: { role: string; message: string }[] }) => unknown;
+    /** WebSocket agents: when a turn ends — sentinel frame (default "done"), idle timeout, predicate, overall timeout */
+    endOfTurn?: {
+      sentinel?: string;
+      idleMs?: number;
+      predicate?: (frame: unknown, frames: unknown[]) => boolean;
+      timeoutMs?: number;
+    };
     module?: string;
+    /** The agent's own model, priced from usage.prices for cost assertions and efficiency diffs */
+    model?: string;
   };
   tests: string;
-  llm: {
-    provider: "chatgpt" | "openai" | "anthropic" | "ollama" | "custom";
-    model?: string;
-    auth?: "chatgpt-session" | "api-key";
-    apiKey?: string;
-    accessToken?: string;
-    authPath?: string;
-    baseURL?: string;
+  /** One provider, or an ordered fallback chain: auth, rate-limit, 5xx and network failures move on to the next */
+  llm: LlmConfig | LlmConfig[];
+  /** Applies to every LLM call, across parallel scenarios, judge panels and discovery */
+  llmCalls?: {
+    /** Most LLM calls in flight at once. Default 8. */
+    concurrency?: number;
+    /** Retries of rate-limit, 5xx and network failures on each provider, with backoff. Default 2. */
+    retries?: number;
+    /** First backoff delay, doubled on each retry. Default 1000ms. */
+    baseDelayMs?: number;
+  };
+  /** LLM judges for assertions. With a panel every judge votes on each LLM assertion and the
+   *  majority decides; `fabrik judge calibrate` scores each judge and the panel. Default: llm alone. */
+  judge?: {
+    panel?: (LlmConfig & { name?: string })[];
+    /** Judge verdicts are cached in .fabrik/judge-cache.db and reused for unchanged prompts */
+    cache?: {
+      enabled?: boolean;
+      /** Default 168 (7 days) */
+      ttlHours?: number;
+      /** Default 10000 */
+      maxEntries?: number;
+    };
+  };
+  /** Token usage and estimated cost of Fabrik's own LLM calls */
+  usage?: {
+    /** USD per million input and output tokens, keyed by model */
+    prices?: PriceTable;
+    /** Stop gen and run once reached; --budget overrides it */
+    budget?: UsageBudget;
   };
   sandbox?: {
     provider: "daytona" | "local";
@@ -39,10 +103,16 @@ export interface FabrikConfig {
   eval?: {
     parallelism?: number;
     retries?: number;
+    /** Run each scenario this many times (see scenario's samples/passRate) */
+    samples?: number;
     defaultTimeout?: number;
   };
   diff?: {
     regressionThreshold?: number;
+    /** Relative growth in agent tokens, cost, tool calls or turns flagged as a regression. Default 0.2. */
+    efficiencyThreshold?: number;
+    /** How many times slower agent p50/p90/p99 latency may get before it is flagged as a regression. Default 1.5. */
+    latencyRatio?: number;
   };
   report?: {
     formats?: string[];
@@ -53,6 +123,23 @@ export interface FabrikConfig {
   };
 }
 
+export interface LlmConfig {
+  provider: "chatgpt" | "openai" | "anthropic" | "ollama" | "custom";
+  model?: string;
+  auth?: "chatgpt-session" | "api-key";
+  apiKey?: string;
+  accessToken?: string;
+  authPath?: string;
+  /** OpenAI-compatible servers, or the Ollama server (default OLLAMA_HOST, then http://localhost:11434) */
+  baseURL?: string;
+  /** Ollama: how long the model stays loaded after a request, e.g. "10m" */
+  keepAlive?: string;
+  /** Custom: module whose default export is an LLMProvider instance, class or factory */
+  module?: string;
+  /** Custom: passed to the module's class constructor or factory */
+  options?: Record<string, unknown>;
+}
+
 export function defineConfig(config: FabrikConfig): FabrikConfig {
   return config;
 }
@@ -4,6 +4,8 @@ import { runInit } from "./commands/init.js";
 import { runGen } from "./commands/gen.js";
 import { runRun } from "./commands/run.js";
 import { runDiff } from "./commands/diff.js";
+import { runMock } from "./commands/mock.js";
+import { runJudgeCalibrate } from "./commands/judge.js";
 
 const require = createRequire(import.meta.url);
 const packageVersion =
@@ -30,7 +32,7 @@ program
   .description("Discover an agent and generate test files")
   .option("--repo <url>", "Git repo URL to clone and explore")
   .option("--dir <path>", "Local directory to explore")
-  .option("--agent <url>", "HTTP endpoint to probe")
+  .option("--agent <url>", "HTTP endpoint or custom adapter module to probe")
   .option("--assistant <id>", "OpenAI Assistant ID")
   .option("--refresh", "Force re-discovery even if cached profile exists")
   .option("--refresh-probes", "Re-run HTTP probes only, keep repo data")
@@ -42,6 +44,7 @@ program
     "Specific categories: happy,edge,adversarial,guardrail,multi-turn,tool-use"
   )
   .option("--output <dir>", "Output directory", "tests/generated")
+  .option("--budget <limit>", 'Stop once LLM usage reaches a USD amount ("2.50") or token count ("500k tokens")')
   .action(async (options) => {
     await runGen({
       repo: options.repo,
@@ -55,6 +58,7 @@ program
       count: parseInt(options.count, 10),
       categories: options.categories,
       output: options.output,
+      budget: options.budget,
     });
   });
 
@@ -69,6 +73,12 @@ program
   .option("--output <file>", "Write report to file")
   .option("--save", "Save results to trace store (.fabrik/traces.db)")
   .option("--label <label>", "Version label for saved results")
+  .option("--record", "Record agent and LLM responses to cassettes")
+  .option("--replay", "Replay recorded cassettes instead of calling the agent and LLM")
+  .option("--cassette-dir <dir>", "Cassette directory", ".fabrik/cassettes")
+  .option("--samples <n>", "Run each scenario n times and report pass rate and flakiness")
+  .option("--no-judge-cache", "Call the judge for every LLM assertion, ignoring cached verdicts")
+  .option("--budget <limit>", 'Stop starting scenarios once LLM usage reaches a USD amount ("2.50") or token count ("500k tokens")')
   .action(async (options) => {
     await runRun({
       test: options.test,
@@ -79,6 +89,12 @@ program
       output: options.output,
       save: options.save,
       version: options.label,
+      record: options.record,
+      replay: options.replay,
+      cassetteDir: options.cassetteDir,
+      samples: options.samples ? parseInt(options.samples, 10) : undefined,
+      judgeCache: options.judgeCache,
+      budget: options.budget,
     });
   });
 
@@ -88,14 +104,48 @@ program
   .requiredOption("--before <version>", "Base version to compare from")
   .requiredOption("--after <version>", "Target version to compare to")
   .option("--threshold <n>", "Score delta threshold for regression detection", "0.05")
+  .option("--efficiency-threshold <n>", "Relative growth in agent tokens, cost, tool calls or turns flagged as a regression (default: 0.2)")
+  .option("--latency-ratio <n>", "How many times slower agent p50/p90/p99 latency may get before it is flagged as a regression (default: 1.5)")
   .option("--json", "Output diff as JSON")
   .action(async (options) => {
     await runDiff({
       before: options.before,
       after: options.after,
       threshold: options.threshold ? parseFloat(options.threshold) : undefined,
+      efficiencyThreshold: options.efficiencyThreshold ? parseFloat(options.efficiencyThreshold) : undefined,
+      latencyRatio: options.latencyRatio ? parseFloat(options.latencyRatio) : undefined,
       json: options.json,
     });
   });
 
+program
+  .command("mock <script>")
+  .description("Serve a scripted mock agent over HTTP (YAML, JSON or TS rules)")
+  .option("--port <n>", "Port to listen on (default: the script's port, or 4010)")
+  .option("--host <host>", "Host to bind", "127.0.0.1")
+  .action(async (script, options) => {
+    await runMock({
+      script,
+      port: options.port ? parseInt(options.port, 10) : undefined,
+      host: options.host,
+    });
+  });
+
+const judge = program.command("judge").description("Work with the LLM judges behind LLM assertions");
+
+judge
+  .command("calibrate <dataset>")
+  .description("Score the configured judges against human-labeled examples (JSON or JSONL)")
+  .option("--type <type>", "Only examples of this type: sentiment, llmJudge, guardrail, factuality")
+  .option("--parallel <n>", "Examples judged at once", "4")
+  .option("--output <file>", "Write the full report as JSON")
+  .action(async (dataset, options) => {
+    await runJudgeCalibrate({
+      dataset,
+      type: options.type,
+      parallel: parseInt(options.parallel, 10),
+      output: options.output,
+    });
+  });
+
 program.parse();
@@ -0,0 +1,120 @@
+import chalk from "chalk";
+import {
+  ChatGPTProvider,
+  OpenAIProvider,
+  AnthropicProvider,
+  OllamaProvider,
+  loadCustomLlmProvider,
+  FallbackLLMProvider,
+  Semaphore,
+  type FallbackOptions,
+  type LLMProvider,
+  type Judge,
+} from "@fabriklabs/core";
+import type { FabrikConfig, LlmConfig } from "./config.js";
+
+const DEFAULT_LLM_CONCURRENCY = 8;
+
+/** Retry, backoff and one concurrency limit for every LLM provider a command creates */
+export function createLlmCallOptions(llmCalls?: FabrikConfig["llmCalls"]): FallbackOptions {
+  return {
+    retries: llmCalls?.retries,
+    baseDelayMs: llmCalls?.baseDelayMs,
+    semaphore: new Semaphore(llmCalls?.concurrency ?? DEFAULT_LLM_CONCURRENCY),
+  };
+}
+
+/**
+ * The configured provider, or fallback chain, with retries and the shared concurrency limit.
+ * Chain entries that can't be created (a missing API key, say) are skipped with a warning,
+ * so the rest of the chain still serves.
+ */
+export async function createLlmProvider(
+  llmConfig: LlmConfig | LlmConfig[] | undefined,
+  calls?: FallbackOptions
+): Promise<LLMProvider> {
+  const entries = Array.isArray(llmConfig) ? llmConfig : llmConfig ? [llmConfig] : [];
+  if (entries.length === 0) throw new Error("llm is not configured");
+  if (entries.length === 1) return new FallbackLLMProvider([await createBaseLlmProvider(entries[0])], calls);
+
+  const providers: LLMProvider[] = [];
+  const failures: string[] = [];
+  for (const entry of entries) {
+    const label = entry.model ? `${entry.provider}:${entry.model}` : entry.provider;
+    try {
+      providers.push(await createBaseLlmProvider(entry));
+    } catch (e) {
+      failures.push(`${label}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  if (providers.length === 0) {
+    throw new Error(`No LLM provider in the chain could be created: ${failures.join("; ")}`);
+  }
+  for (const failure of failures) {
+    console.log(chalk.yellow(`  Warning: Skipping LLM provider ${failure}`));
+  }
+  return new FallbackLLMProvider(providers, calls);
+}
+
+async function createBaseLlmProvider(llmConfig: LlmConfig): Promise<LLMProvider> {
+  const provider = llmConfig.provider ?? "chatgpt";
+
+  if (provider === "chatgpt") {
+    return new ChatGPTProvider({
+      model: llmConfig.model,
+      accessToken: llmConfig.accessToken,
+      authPath: llmConfig.authPath,
+    });
+  }
+
+  if (provider === "anthropic") {
+    const apiKey = llmConfig.apiKey ?? process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error("Anthropic API key required. Set ANTHROPIC_API_KEY or configure in fabrik.config.ts");
+    }
+    return new AnthropicProvider({ apiKey, model: llmConfig.model });
+  }
+
+  if (provider === "openai") {
+    const apiKey = llmConfig.apiKey ?? process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error("OpenAI API key required. Set OPENAI_API_KEY or configure in fabrik.config.ts");
+    }
+    return new OpenAIProvider({
+      apiKey,
+      model: llmConfig.model,
+      baseURL: llmConfig.baseURL,
+    });
+  }
+
+  if (provider === "ollama") {
+    return new OllamaProvider({
+      model: llmConfig.model,
+      baseURL: llmConfig.baseURL,
+      keepAlive: llmConfig.keepAlive,
+    });
+  }
+
+  if (provider === "custom") {
+    if (!llmConfig.module) throw new Error("llm.module is required for custom LLM providers");
+    return loadCustomLlmProvider(llmConfig.module, llmConfig.options);
+  }
+
+  throw new Error(`Unknown LLM provider: "${provider}". Use "chatgpt", "openai", "anthropic", "ollama" or "custom".`);
+}
+
+/** Build one judge per panel entry, named by `name` or provider:model */
+export async function createJudgePanel(
+  panel: (LlmConfig & { name?: string })[],
+  calls?: FallbackOptions
+): Promise<Judge[]> {
+  const seen = new Map<string, number>();
+  const judges: Judge[] = [];
+  for (const entry of panel) {
+    const base = entry.name ?? (entry.model ? `${entry.provider}:${entry.model}` : entry.provider);
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    judges.push({ name: count > 1 ? `${base}#${count}` : base, provider: await createLlmProvider(entry, calls) });
+  }
+  return judges;
+}
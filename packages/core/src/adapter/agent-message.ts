@@ -0,0 +1,21 @@
+import type { ToolCall, TokenUsage } from "./interface.js";
+import { isRecord } from "../util.js";
+
+/**
+ * Readers for the {"type":"tool_call"} and {"type":"usage"} messages that agents
+ * emit over the subprocess (JSON lines) and WebSocket (frames) protocols.
+ */
+
+export function toToolCall(msg: Record<string, unknown>): ToolCall {
+  return {
+    name: String(msg.name ?? "unknown"),
+    arguments: isRecord(msg.arguments) ? msg.arguments : {},
+    result: msg.result,
+  };
+}
+
+export function toTokenUsage(msg: Record<string, unknown>): TokenUsage {
+  const input = Number(msg.input ?? msg.input_tokens ?? msg.prompt_tokens ?? 0);
+  const output = Number(msg.output ?? msg.output_tokens ?? msg.completion_tokens ?? 0);
+  return { input, output, total: Number(msg.total ?? msg.total_tokens ?? input + output) };
+}
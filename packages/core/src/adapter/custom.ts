@@ -0,0 +1,61 @@
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { AgentAdapter } from "./interface.js";
+
+const ADAPTER_METHODS = ["connect", "send", "reset", "disconnect"] as const;
+
+/**
+ * Load a user-supplied AgentAdapter for `agent.type: "custom"`.
+ *
+ * The module's default export may be an adapter instance, an adapter class,
+ * or a factory function returning an adapter (sync or async). Relative paths
+ * are resolved against `cwd`.
+ */
+export async function loadCustomAdapter(
+  modulePath: string,
+  cwd: string = process.cwd()
+): Promise<AgentAdapter> {
+  const absPath = resolve(cwd, modulePath);
+
+  let mod: Record<string, unknown>;
+  try {
+    mod = await import(pathToFileURL(absPath).href);
+  } catch (e) {
+    throw new Error(
+      `Failed to load custom adapter module "${modulePath}": ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+
+  let exported = mod.default;
+  if (exported === undefined) {
+    throw new Error(
+      `Custom adapter module "${modulePath}" has no default export. Export an AgentAdapter instance, class, or factory function as default.`
+    );
+  }
+
+  if (typeof exported === "function") {
+    const ctor = exported as new () => unknown;
+    exported = hasAdapterMethods(ctor.prototype)
+      ? new ctor()
+      : await (exported as () => unknown)();
+  }
+
+  const missing = missingAdapterMethods(exported);
+  if (missing.length > 0) {
+    throw new Error(
+      `Custom adapter module "${modulePath}" does not implement AgentAdapter — missing method(s): ${missing.join(", ")}`
+    );
+  }
+
+  return exported as AgentAdapter;
+}
+
+function hasAdapterMethods(obj: unknown): boolean {
+  return missingAdapterMethods(obj).length < ADAPTER_METHODS.length;
+}
+
+function missingAdapterMethods(obj: unknown): string[] {
+  if (typeof obj !== "object" || obj === null) return [...ADAPTER_METHODS];
+  const record = obj as Record<string, unknown>;
+  return ADAPTER_METHODS.filter((m) => typeof record[m] !== "function");
+}
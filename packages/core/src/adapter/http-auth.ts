@@ -0,0 +1,189 @@
+import { exec } from "node:child_process";
+import { createHmac } from "node:crypto";
+import { promisify } from "node:util";
+import type { AgentAuthConfig } from "./interface.js";
+
+const execAsync = promisify(exec);
+
+const COMMAND_TIMEOUT_MS = 30000;
+/** Refresh OAuth tokens this long before they expire */
+const EXPIRY_SKEW_MS = 30000;
+
+export interface AuthRequest {
+  method: string;
+  url: string;
+  body: string;
+}
+
+/** Produces the auth headers for one outgoing request */
+export interface AgentAuth {
+  headers(req: AuthRequest): Promise<Record<string, string>>;
+  /**
+   * Drop cached credentials after a 401. Returns true when fresh credentials
+   * may fix the request, so it is worth sending again.
+   */
+  invalidate(): boolean;
+}
+
+export function createAgentAuth(config: AgentAuthConfig): AgentAuth {
+  switch (config.type) {
+    case "bearer-command":
+      return new CommandBearerAuth(config);
+    case "oauth2-client-credentials":
+      return new ClientCredentialsAuth(config);
+    case "hmac":
+      return new HmacAuth(config);
+    default:
+      throw new Error(`Unknown agent auth type "${(config as { type: string }).type}"`);
+  }
+}
+
+interface Token {
+  value: string;
+  expiresAt: number;
+}
+
+/** Caches one token; concurrent requests share the in-flight fetch */
+class TokenCache {
+  private fetchToken: () => Promise<Token>;
+  private token: Promise<Token> | null = null;
+
+  constructor(fetchToken: () => Promise<Token>) {
+    this.fetchToken = fetchToken;
+  }
+
+  async get(): Promise<string> {
+    if (this.token) {
+      const cached = await this.token.catch(() => null);
+      if (!cached || Date.now() >= cached.expiresAt) this.token = null;
+    }
+    if (!this.token) {
+      const pending = this.fetchToken();
+      this.token = pending;
+      // A failed fetch is retried on the next request instead of being cached
+      pending.catch(() => {
+        if (this.token === pending) this.token = null;
+      });
+    }
+    return (await this.token).value;
+  }
+
+  clear(): void {
+    this.token = null;
+  }
+}
+
+class CommandBearerAuth implements AgentAuth {
+  private config: Extract<AgentAuthConfig, { type: "bearer-command" }>;
+  private cache = new TokenCache(() => this.runCommand());
+
+  constructor(config: Extract<AgentAuthConfig, { type: "bearer-command" }>) {
+    this.config = config;
+  }
+
+  async headers(): Promise<Record<string, string>> {
+    return { [this.config.header ?? "Authorization"]: `Bearer ${await this.cache.get()}` };
+  }
+
+  invalidate(): boolean {
+    this.cache.clear();
+    return true;
+  }
+
+  private async runCommand(): Promise<Token> {
+    let stdout: string;
+    try {
+      ({ stdout } = await execAsync(this.config.command, { timeout: COMMAND_TIMEOUT_MS }));
+    } catch (e) {
+      throw new Error(
+        `Auth command "${this.config.command}" failed: ${e instanceof Error ? e.message : String(e)}`
+      );
+    }
+    const value = stdout.trim();
+    if (!value) throw new Error(`Auth command "${this.config.command}" printed no token`);
+    return {
+      value,
+      expiresAt: this.config.refreshIntervalMs ? Date.now() + this.config.refreshIntervalMs : Infinity,
+    };
+  }
+}
+
+class ClientCredentialsAuth implements AgentAuth {
+  private config: Extract<AgentAuthConfig, { type: "oauth2-client-credentials" }>;
+  private cache = new TokenCache(() => this.requestToken());
+
+  constructor(config: Extract<AgentAuthConfig, { type: "oauth2-client-credentials" }>) {
+    this.config = config;
+  }
+
+  async headers(): Promise<Record<string, string>> {
+    return { Authorization: `Bearer ${await this.cache.get()}` };
+  }
+
+  invalidate(): boolean {
+    this.cache.clear();
+    return true;
+  }
+
+  private async requestToken(): Promise<Token> {
+    const { tokenUrl, clientId, clientSecret, scope, audience, params, clientAuth } = this.config;
+
+    const form = new URLSearchParams({ grant_type: "client_credentials", ...params });
+    if (scope) form.set("scope", scope);
+    if (audience) form.set("audience", audience);
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    };
+    if (clientAuth === "basic") {
+      const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    } else {
+      form.set("client_id", clientId);
+      form.set("client_secret", clientSecret);
+    }
+
+    const res = await fetch(tokenUrl, { method: "POST", headers, body: form.toString() });
+    if (!res.ok) {
+      throw new Error(`OAuth2 token request to ${tokenUrl} failed with HTTP ${res.status}: ${await res.text()}`);
+    }
+
+    const data = (await res.json()) as { access_token?: string; expires_in?: number | string };
+    if (!data.access_token) {
+      throw new Error(`OAuth2 token response from ${tokenUrl} has no access_token`);
+    }
+    const expiresIn = Number(data.expires_in);
+    return {
+      value: data.access_token,
+      expiresAt: expiresIn > 0 ? Date.now() + expiresIn * 1000 - EXPIRY_SKEW_MS : Infinity,
+    };
+  }
+}
+
+class HmacAuth implements AgentAuth {
+  private config: Extract<AgentAuthConfig, { type: "hmac" }>;
+
+  constructor(config: Extract<AgentAuthConfig, { type: "hmac" }>) {
+    this.config = config;
+  }
+
+  async headers(req: AuthRequest): Promise<Record<string, string>> {
+    const { secret, algorithm, encoding, header, prefix, timestampHeader, payload } = this.config;
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const toSign = payload ? payload({ ...req, timestamp }) : `${timestamp}.${req.body}`;
+    const signature = createHmac(algorithm ?? "sha256", secret)
+      .update(toSign)
+      .digest(encoding ?? "hex");
+
+    return {
+      [header ?? "X-Signature"]: `${prefix ?? ""}${signature}`,
+      [timestampHeader ?? "X-Timestamp"]: timestamp,
+    };
+  }
+
+  invalidate(): boolean {
+    // Signatures are computed per request; a 401 won't be fixed by signing again
+    return false;
+  }
+}
@@ -0,0 +1,85 @@
+import type { HttpRetryConfig } from "./interface.js";
+
+export const DEFAULT_RETRY_STATUS_CODES = [408, 429, 502, 503, 504];
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10000;
+
+export interface RetryPolicy {
+  maxRetries: number;
+  statusCodes: Set<number>;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export function resolveRetryPolicy(config: HttpRetryConfig | number | undefined): RetryPolicy {
+  const opts = typeof config === "number" ? { maxRetries: config } : config ?? { maxRetries: 0 };
+  return {
+    maxRetries: opts.maxRetries ?? DEFAULT_MAX_RETRIES,
+    statusCodes: new Set(opts.statusCodes ?? DEFAULT_RETRY_STATUS_CODES),
+    baseDelayMs: opts.baseDelayMs ?? DEFAULT_BASE_DELAY_MS,
+    maxDelayMs: opts.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+  };
+}
+
+/** Exponential backoff with equal jitter: half the capped delay, plus a random share of the other half */
+export function backoffDelay(policy: RetryPolicy, retry: number): number {
+  const capped = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return capped / 2 + Math.random() * (capped / 2);
+}
+
+/** Delay requested by a Retry-After header (seconds or HTTP date), if any */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Token bucket limiting request starts. One bucket belongs to one adapter, so
+ * every conversation running through it — including parallel scenarios —
+ * draws from the same budget. Callers are served in arrival order.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private capacity: number;
+  private ratePerMs: number;
+  private lastRefill = performance.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(requestsPerSecond: number, burst?: number) {
+    if (!(requestsPerSecond > 0)) {
+      throw new Error(`rateLimit.requestsPerSecond must be positive, got ${requestsPerSecond}`);
+    }
+    this.capacity = Math.max(1, burst ?? 1);
+    this.tokens = this.capacity;
+    this.ratePerMs = requestsPerSecond / 1000;
+  }
+
+  take(): Promise<void> {
+    const turn = this.queue.then(() => this.acquire());
+    this.queue = turn;
+    return turn;
+  }
+
+  private async acquire(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      await sleep((1 - this.tokens) / this.ratePerMs);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = performance.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.ratePerMs);
+    this.lastRefill = now;
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
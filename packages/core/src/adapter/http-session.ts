@@ -0,0 +1,201 @@
+import type { AgentAuth } from "./http-auth.js";
+import type { HttpSessionConfig } from "./interface.js";
+import { isRecord } from "../util.js";
+
+interface SessionState {
+  id?: string;
+  cookies: Map<string, string>;
+  created: boolean;
+}
+
+/**
+ * Per-conversation session state for HttpAdapter: the server's session id and
+ * cookie jar, plus the optional create/delete session calls.
+ */
+export class HttpSessions {
+  private config: HttpSessionConfig;
+  private baseHeaders: Record<string, string>;
+  private auth?: AgentAuth;
+  private states = new Map<string, SessionState>();
+
+  constructor(config: HttpSessionConfig, baseHeaders?: Record<string, string>, auth?: AgentAuth) {
+    this.config = config;
+    this.baseHeaders = baseHeaders ?? {};
+    this.auth = auth;
+  }
+
+  /** Whether the conversation already has server-side state to continue from */
+  isEstablished(conversationId: string): boolean {
+    const state = this.states.get(conversationId);
+    return !!state && (state.id !== undefined || state.cookies.size > 0);
+  }
+
+  /** Call the create-session endpoint before a conversation's first turn */
+  async open(conversationId: string): Promise<void> {
+    const { create } = this.config;
+    const state = this.state(conversationId);
+    if (!create || state.created) return;
+
+    const method = create.method ?? "POST";
+    const body = JSON.stringify(create.body ?? {});
+    const res = await fetch(create.url, {
+      method,
+      headers: {
+        ...this.headers(state, { "Content-Type": "application/json", ...create.headers }),
+        ...(await this.auth?.headers({ method, url: create.url, body })),
+      },
+      body,
+    });
+    if (!res.ok) {
+      throw new Error(`Create-session request to ${create.url} failed with HTTP ${res.status}: ${await res.text()}`);
+    }
+
+    const contentType = res.headers.get("content-type") ?? "";
+    const data = contentType.includes("json") ? await res.json() : undefined;
+    this.capture(conversationId, res, data);
+
+    if (this.config.idFrom && state.id === undefined) {
+      throw new Error(`Create-session response from ${create.url} has no session id (${describeIdFrom(this.config.idFrom)})`);
+    }
+    state.created = true;
+  }
+
+  /** Add the session id and cookies to an outgoing request */
+  apply(
+    conversationId: string,
+    headers: Record<string, string>,
+    body: unknown
+  ): { headers: Record<string, string>; body: unknown } {
+    const state = this.states.get(conversationId);
+    const { sendAs } = this.config;
+    if (state?.id !== undefined && sendAs && "bodyField" in sendAs && isRecord(body)) {
+      body = setPath(body, sendAs.bodyField.split("."), state.id);
+    }
+    return { headers: this.headers(state, headers), body };
+  }
+
+  /** Record the session id and cookies from a response. `data` is the parsed JSON body, when there is one. */
+  capture(conversationId: string, res: Response, data?: unknown): void {
+    const state = this.state(conversationId);
+    const { idFrom, sendAs } = this.config;
+
+    if (this.config.cookies !== false) {
+      for (const header of res.headers.getSetCookie()) {
+        const [pair, ...attributes] = header.split(";");
+        const eq = pair.indexOf("=");
+        if (eq <= 0) continue;
+        const name = pair.slice(0, eq).trim();
+        const value = pair.slice(eq + 1).trim();
+        const expired = attributes.some((a) => /^\s*max-age\s*=\s*0\s*$/i.test(a));
+        if (expired || !value) state.cookies.delete(name);
+        else state.cookies.set(name, value);
+      }
+    }
+
+    let id: unknown;
+    if (idFrom && "header" in idFrom) {
+      id = res.headers.get(idFrom.header) ?? undefined;
+    } else if (idFrom && data !== undefined) {
+      id = getPath(data, idFrom.jsonPath.split("."));
+    } else if (sendAs && "cookie" in sendAs) {
+      // Without idFrom, a session cookie the server sets is the session id
+      id = state.cookies.get(sendAs.cookie);
+    }
+    if (typeof id === "string" || typeof id === "number") state.id = String(id);
+  }
+
+  /** Call the delete-session endpoint for one conversation's session and forget its state */
+  async close(conversationId: string): Promise<void> {
+    const state = this.states.get(conversationId);
+    if (!state) return;
+    this.states.delete(conversationId);
+    await this.deleteSessions([state]);
+  }
+
+  /** Call the delete-session endpoint for every open session and forget all state */
+  async closeAll(): Promise<void> {
+    const states = [...this.states.values()];
+    this.states.clear();
+    await this.deleteSessions(states);
+  }
+
+  private async deleteSessions(states: SessionState[]): Promise<void> {
+    const del = this.config.delete;
+    if (!del) return;
+
+    const failures: string[] = [];
+    for (const state of states) {
+      if (state.id === undefined && state.cookies.size === 0) continue;
+      if (del.url.includes("{sessionId}") && state.id === undefined) continue;
+
+      const url = del.url.replace(/\{sessionId\}/g, encodeURIComponent(state.id ?? ""));
+      const method = del.method ?? "DELETE";
+      try {
+        const res = await fetch(url, {
+          method,
+          headers: {
+            ...this.headers(state, { ...del.headers }),
+            ...(await this.auth?.headers({ method, url, body: "" })),
+          },
+        });
+        // 404: the session already expired on the server
+        if (!res.ok && res.status !== 404) failures.push(`${url}: HTTP ${res.status}`);
+      } catch (e) {
+        failures.push(`${url}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(`Failed to delete ${failures.length} agent session(s):\n  ${failures.join("\n  ")}`);
+    }
+  }
+
+  private state(conversationId: string): SessionState {
+    let state = this.states.get(conversationId);
+    if (!state) {
+      state = { cookies: new Map(), created: false };
+      this.states.set(conversationId, state);
+    }
+    return state;
+  }
+
+  private headers(state: SessionState | undefined, extra: Record<string, string>): Record<string, string> {
+    const headers: Record<string, string> = { ...this.baseHeaders, ...extra };
+    if (!state) return headers;
+
+    const { sendAs } = this.config;
+    const cookies = new Map(state.cookies);
+    if (state.id !== undefined && sendAs) {
+      if ("header" in sendAs) headers[sendAs.header] = `${sendAs.prefix ?? ""}${state.id}`;
+      if ("cookie" in sendAs) cookies.set(sendAs.cookie, state.id);
+    }
+    if (cookies.size > 0) {
+      headers.Cookie = [...cookies].map(([name, value]) => `${name}=${value}`).join("; ");
+    }
+    return headers;
+  }
+}
+
+function describeIdFrom(idFrom: NonNullable<HttpSessionConfig["idFrom"]>): string {
+  return "header" in idFrom ? `header "${idFrom.header}"` : `JSON path "${idFrom.jsonPath}"`;
+}
+
+function getPath(data: unknown, path: string[]): unknown {
+  let current = data;
+  for (const key of path) {
+    if (Array.isArray(current)) current = current[Number(key)];
+    else if (isRecord(current)) current = current[key];
+    else return undefined;
+  }
+  return current;
+}
+
+/** Copy-on-write set, so bodyTemplate results are never mutated */
+function setPath(data: Record<string, unknown>, path: string[], value: unknown): Record<string, unknown> {
+  const [key, ...rest] = path;
+  const child = data[key];
+  return {
+    ...data,
+    [key]: rest.length === 0 ? value : setPath(isRecord(child) ? child : {}, rest, value),
+  };
+}
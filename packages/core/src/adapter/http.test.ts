@@ -0,0 +1,156 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { HttpAdapter } from "./http.js";
+import type { AgentConfig } from "./interface.js";
+import { startMockAgent, type MockAgent, type MockRequestLog } from "../mock/server.js";
+import type { MockScript } from "../mock/script.js";
+
+let agent: MockAgent | undefined;
+let requests: MockRequestLog[] = [];
+
+afterEach(async () => {
+  await agent?.close();
+  agent = undefined;
+  requests = [];
+});
+
+async function connect(
+  script: MockScript,
+  config: Partial<Extract<AgentConfig, { type: "http" }>> = {}
+): Promise<HttpAdapter> {
+  agent = await startMockAgent(script, { onRequest: (entry) => requests.push(entry) });
+  const adapter = new HttpAdapter();
+  await adapter.connect({ type: "http", url: agent.url, ...config });
+  return adapter;
+}
+
+const orderReply: MockScript = {
+  rules: [
+    {
+      match: "order (\\d+)",
+      text: "Order $1 has shipped.",
+      toolCalls: [{ name: "lookup_order", arguments: { id: "42" }, result: { status: "shipped" } }],
+      usage: { input: 12, output: 5 },
+    },
+  ],
+};
+
+describe("HttpAdapter against the mock agent", () => {
+  it("reads text, tool calls and usage from a JSON response", async () => {
+    const adapter = await connect(orderReply);
+
+    const response = await adapter.send("Where is order 42?");
+
+    expect(response.text).toBe("Order 42 has shipped.");
+    expect(response.toolCalls).toEqual([
+      { name: "lookup_order", arguments: { id: "42" }, result: { status: "shipped" } },
+    ]);
+    expect(response.tokenUsage).toEqual({ input: 12, output: 5, total: 17 });
+    expect(response.streamMetrics).toBeUndefined();
+  });
+
+  it("sends the conversation history in the messages format", async () => {
+    const adapter = await connect({ rules: [{ text: "ok" }] });
+
+    await adapter.send("second", {
+      conversationId: "c1",
+      turns: [
+        { role: "user", message: "first" },
+        { role: "agent", message: "ok" },
+      ],
+    });
+
+    expect(requests[0].request?.format).toBe("messages");
+    expect(requests[0].request?.message).toBe("second");
+    expect(requests[0].request?.turn).toBe(1);
+  });
+
+  it.each(["sse", "data-stream"] as const)("reads a %s stream", async (stream) => {
+    // Spaced out so the chunks arrive as separate reads
+    const script = { ...orderReply, rules: orderReply.rules.map((r) => ({ ...r, chunkDelayMs: 20 })) };
+    const adapter = await connect({ ...script, stream }, { streaming: true });
+
+    const response = await adapter.send("Where is order 42?");
+
+    expect(response.text).toBe("Order 42 has shipped.");
+    expect(response.toolCalls).toEqual([
+      { name: "lookup_order", arguments: { id: "42" }, result: { status: "shipped" } },
+    ]);
+    const metrics = response.streamMetrics!;
+    expect(metrics.chunkCount).toBeGreaterThan(1);
+    expect(metrics.interTokenGapsMs).toHaveLength(metrics.chunkCount - 1);
+    expect(metrics.timeToFirstTokenMs).toBeLessThanOrEqual(metrics.totalStreamMs);
+  });
+
+  it("retries retryable statuses and reports the retry count", async () => {
+    const adapter = await connect(
+      { rules: [{ status: 503, times: 2 }, { text: "recovered" }] },
+      { retry: { maxRetries: 2, baseDelayMs: 1 } }
+    );
+
+    const response = await adapter.send("hello");
+
+    expect(response.text).toBe("recovered");
+    expect(response.retries).toBe(2);
+    expect(requests.map((r) => r.status)).toEqual([503, 503, 200]);
+  });
+
+  it("gives up once the retries are used", async () => {
+    const adapter = await connect(
+      { rules: [{ status: 503, times: 3 }, { text: "too late" }] },
+      { retry: { maxRetries: 2, baseDelayMs: 1 } }
+    );
+
+    await expect(adapter.send("hello")).rejects.toThrow(/HTTP 503 \(after 2 retries\)/);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("does not retry statuses outside the retry policy", async () => {
+    const adapter = await connect(
+      { rules: [{ status: 400, times: 1 }, { text: "unreachable" }] },
+      { retry: { maxRetries: 2, baseDelayMs: 1 } }
+    );
+
+    await expect(adapter.send("hello")).rejects.toThrow(/HTTP 400/);
+    expect(requests).toHaveLength(1);
+  });
+
+  describe("auth refresh", () => {
+    let dir: string | undefined;
+
+    afterEach(async () => {
+      if (dir) await rm(dir, { recursive: true, force: true });
+      dir = undefined;
+    });
+
+    it("fetches a fresh token once after a 401, without counting a retry", async () => {
+      dir = await mkdtemp(join(tmpdir(), "fabrik-auth-"));
+      const counter = join(dir, "count");
+      // Prints a new token each run and counts the runs
+      const command = `n=$(cat ${counter} 2>/dev/null || echo 0); n=$((n+1)); echo $n > ${counter}; echo token-$n`;
+      const adapter = await connect(
+        { rules: [{ status: 401, times: 1 }, { text: "authorized" }] },
+        { auth: { type: "bearer-command", command } }
+      );
+
+      const response = await adapter.send("hello");
+
+      expect(response.text).toBe("authorized");
+      expect(response.retries).toBe(0);
+      expect(requests.map((r) => r.status)).toEqual([401, 200]);
+      expect((await readFile(counter, "utf-8")).trim()).toBe("2");
+    });
+
+    it("fails when the fresh token is rejected too", async () => {
+      const adapter = await connect(
+        { rules: [{ status: 401 }] },
+        { auth: { type: "bearer-command", command: "echo token" } }
+      );
+
+      await expect(adapter.send("hello")).rejects.toThrow(/HTTP 401/);
+      expect(requests).toHaveLength(2);
+    });
+  });
+});
@@ -3,98 +3,215 @@ import {
   AgentConfig,
   AgentResponse,
   ConversationContext,
+  StreamMetrics,
+  ToolCall,
 } from "./interface.js";
+import { createAgentAuth, type AgentAuth } from "./http-auth.js";
+import {
+  backoffDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  sleep,
+  TokenBucket,
+  type RetryPolicy,
+} from "./http-retry.js";
+import { HttpSessions } from "./http-session.js";
+import { resolveResponseShape } from "./response-shapes.js";
+import { StreamParser } from "./stream-parser.js";
 
 type HttpConfig = Extract<AgentConfig, { type: "http" }>;
 
+const DEFAULT_SESSION = "default";
+
 export class HttpAdapter implements AgentAdapter {
   private config!: HttpConfig;
+  private sessions: HttpSessions | null = null;
+  private retryPolicy!: RetryPolicy;
+  private rateLimiter: TokenBucket | null = null;
+  private auth: AgentAuth | null = null;
 
   async connect(config: AgentConfig): Promise<void> {
     if (config.type !== "http") {
       throw new Error(`HttpAdapter requires config type "http", got "${config.type}"`);
     }
     this.config = config;
+    this.auth = config.auth ? createAgentAuth(config.auth) : null;
+    this.sessions = config.session
+      ? new HttpSessions(config.session, config.headers, this.auth ?? undefined)
+      : null;
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.rateLimiter = config.rateLimit
+      ? new TokenBucket(config.rateLimit.requestsPerSecond, config.rateLimit.burst)
+      : null;
   }
 
   async send(message: string, context?: ConversationContext): Promise<AgentResponse> {
-    const { url, headers, bodyTemplate, responseParser, requestFormat, streaming } = this.config;
+    const { url, headers, bodyTemplate, requestFormat, session } = this.config;
+    const conversationId = context?.conversationId ?? DEFAULT_SESSION;
+
+    await this.sessions?.open(conversationId);
 
+    // The server already holds the history once a session is established
+    const includeHistory = !this.sessions?.isEstablished(conversationId) || !!session?.sendHistory;
     const body = bodyTemplate
       ? bodyTemplate(message, context)
-      : buildDefaultBody(message, context, requestFormat);
+      : buildDefaultBody(message, context, requestFormat, includeHistory);
 
-    const start = performance.now();
+    const request = this.sessions
+      ? this.sessions.apply(conversationId, { "Content-Type": "application/json" }, body)
+      : { headers: { "Content-Type": "application/json", ...headers }, body };
 
-    const res = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...headers,
-      },
-      body: JSON.stringify(body),
-    });
+    const { timeoutMs } = this.config;
+    const policy = this.retryPolicy;
 
-    const latencyMs = performance.now() - start;
+    const bodyText = JSON.stringify(request.body);
+    let retries = 0;
+    let authRefreshed = false;
 
-    if (!res.ok) {
-      throw new Error(`Agent responded with HTTP ${res.status}: ${await res.text()}`);
-    }
+    while (true) {
+      await this.rateLimiter?.take();
 
-    // Streaming response: read the full text stream
-    if (streaming) {
-      const text = await readStreamResponse(res);
-      return new AgentResponse({
-        text,
-        toolCalls: [],
-        latencyMs,
-        raw: text,
-      });
+      const controller = new AbortController();
+      const timer = timeoutMs ? setTimeout(() => controller.abort(), timeoutMs) : undefined;
+      const canRetry = retries < policy.maxRetries;
+
+      try {
+        const authHeaders = await this.auth?.headers({ method: "POST", url, body: bodyText });
+        const start = performance.now();
+
+        let res: Response;
+        try {
+          res = await fetch(url, {
+            method: "POST",
+            headers: { ...request.headers, ...authHeaders },
+            body: bodyText,
+            signal: controller.signal,
+          });
+        } catch (e) {
+          // fetch rejects with a TypeError for network failures (refused, reset, DNS)
+          if (canRetry && (controller.signal.aborted || e instanceof TypeError)) {
+            await sleep(backoffDelay(policy, retries));
+            retries++;
+            continue;
+          }
+          throw this.requestError(e, controller.signal.aborted, retries);
+        }
+
+        if (!res.ok) {
+          const detail = await res.text().catch(() => "");
+          // Expired or revoked credentials: fetch fresh ones once, without counting a retry
+          if (res.status === 401 && !authRefreshed && this.auth?.invalidate()) {
+            authRefreshed = true;
+            continue;
+          }
+          if (canRetry && policy.statusCodes.has(res.status)) {
+            // Retry-After is honoured up to maxDelayMs, so a server asking for an hour can't stall the turn
+            const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+            await sleep(retryAfter !== undefined ? Math.min(retryAfter, policy.maxDelayMs) : backoffDelay(policy, retries));
+            retries++;
+            continue;
+          }
+          throw new Error(`Agent responded with HTTP ${res.status}${retrySuffix(retries)}: ${detail}`);
+        }
+
+        try {
+          return await this.readResponse(res, conversationId, start, retries);
+        } catch (e) {
+          if (!controller.signal.aborted) throw e;
+          if (canRetry) {
+            await sleep(backoffDelay(policy, retries));
+            retries++;
+            continue;
+          }
+          throw this.requestError(e, true, retries);
+        }
+      } finally {
+        clearTimeout(timer);
+      }
     }
+  }
 
-    // Check content-type to auto-detect streaming
+  private async readResponse(
+    res: Response,
+    conversationId: string,
+    start: number,
+    retries: number
+  ): Promise<AgentResponse> {
+    const { responseParser, streaming, responseShape } = this.config;
+
+    // Streaming response: explicitly enabled, or auto-detected from content-type
     const contentType = res.headers.get("content-type") ?? "";
-    if (contentType.includes("text/event-stream") || contentType.includes("text/plain")) {
-      const text = await readStreamResponse(res);
+    if (
+      streaming ||
+      contentType.includes("text/event-stream") ||
+      contentType.includes("text/plain")
+    ) {
+      this.sessions?.capture(conversationId, res);
+      const { text, toolCalls, metrics } = await readStreamResponse(res, start);
       return new AgentResponse({
         text,
-        toolCalls: [],
-        latencyMs,
+        toolCalls,
+        latencyMs: metrics.totalStreamMs,
+        streamMetrics: metrics,
+        retries,
         raw: text,
       });
     }
 
     // Standard JSON response
     const data = await res.json();
-    const text = responseParser ? responseParser(data) : parseResponse(data);
+    const latencyMs = performance.now() - start;
+    this.sessions?.capture(conversationId, res, data);
+    const shape = resolveResponseShape(responseShape, data);
+    const text = responseParser ? responseParser(data) : shape.text(data);
 
     return new AgentResponse({
       text,
-      toolCalls: extractToolCalls(data),
+      toolCalls: shape.toolCalls(data),
       latencyMs,
-      tokenUsage: extractTokenUsage(data),
+      tokenUsage: shape.tokenUsage(data),
+      retries,
       raw: data,
     });
   }
 
+  private requestError(e: unknown, timedOut: boolean, retries: number): Error {
+    if (timedOut) {
+      return new Error(`Agent request timed out after ${this.config.timeoutMs}ms${retrySuffix(retries)}`);
+    }
+    const reason = e instanceof Error ? (e.cause instanceof Error ? e.cause.message : e.message) : String(e);
+    return new Error(`Agent request to ${this.config.url} failed${retrySuffix(retries)}: ${reason}`);
+  }
+
   async reset(): Promise<void> {
-    // HTTP adapter is stateless per-request; nothing to reset
+    // Without session config the adapter is stateless per-request
+    await this.sessions?.closeAll();
   }
 
   async disconnect(): Promise<void> {
-    // No persistent connection to close
+    await this.sessions?.closeAll();
   }
+
+  async endConversation(conversationId: string): Promise<void> {
+    await this.sessions?.close(conversationId);
+  }
+}
+
+function retrySuffix(retries: number): string {
+  return retries > 0 ? ` (after ${retries} ${retries === 1 ? "retry" : "retries"})` : "";
 }
 
 /**
  * Build the default request body based on requestFormat.
  * "messages" (default) sends { messages: [{role, content}] } — compatible with OpenAI, Vercel AI SDK, etc.
  * "legacy" sends { message, conversation_id } — the original format.
+ * Without history (an established server-side session), "messages" carries only the new message.
  */
 function buildDefaultBody(
   message: string,
   context: ConversationContext | undefined,
-  requestFormat: "messages" | "legacy" | undefined
+  requestFormat: "messages" | "legacy" | undefined,
+  includeHistory = true
 ): unknown {
   if (requestFormat === "legacy") {
     return {
@@ -106,7 +223,7 @@ function buildDefaultBody(
   // Default: "messages" format (OpenAI-compatible)
   const messages: { role: string; content: string }[] = [];
 
-  if (context?.turns) {
+  if (context?.turns && includeHistory) {
     for (const turn of context.turns) {
       messages.push({ role: turn.role, content: turn.message });
     }
@@ -118,214 +235,55 @@ function buildDefaultBody(
 }
 
 /**
- * Read a streaming response (SSE / text stream) and return the accumulated text.
+ * Read a streaming response (SSE / text stream) incrementally, returning the accumulated
+ * text, reconstructed tool calls and timing metrics. A "token" is any network chunk that adds text to the response.
  * Handles:
- *  - Vercel AI SDK data stream protocol (lines prefixed with 0:, data chunks as JSON strings)
- *  - Vercel AI SDK UI message stream (data: {"type":"text-delta","textDelta":"..."})
- *  - OpenAI SSE (data: {"choices":[{"delta":{"content":"..."}}]})
+ *  - Vercel AI SDK data stream protocol (lines prefixed with 0:, data chunks as JSON strings;
+ *    9:/b:/c: tool call frames, a: tool results)
+ *  - Vercel AI SDK UI message stream (data: {"type":"text-delta","textDelta":"..."},
+ *    tool-input-* and tool-output-* parts)
+ *  - OpenAI SSE (data: {"choices":[{"delta":{"content":"..."}}]}, delta.tool_calls fragments)
  *  - Plain text streams
  */
-async function readStreamResponse(res: Response): Promise<string> {
-  const raw = await res.text();
-  const lines = raw.split("\n");
-
-  let accumulated = "";
-  let formatDetected: "data-stream" | "sse" | "plain" | null = null;
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
-
-    // Vercel AI SDK data stream protocol: lines like 0:"text chunk"
-    // Format: <digit>:<payload> where 0=text, e=finish, d=done, f=metadata
-    if (/^\d+:/.test(trimmed)) {
-      formatDetected = "data-stream";
-      const colonIdx = trimmed.indexOf(":");
-      const prefix = trimmed.slice(0, colonIdx);
-      const payload = trimmed.slice(colonIdx + 1);
-
-      // 0 = text token
-      if (prefix === "0") {
-        try {
-          const parsed = JSON.parse(payload);
-          const streamError = extractStreamError(parsed);
-          if (streamError) {
-            throw new Error(`Agent stream error: ${streamError}`);
-          }
-          const chunk = extractTextChunk(parsed);
-          if (chunk) accumulated += chunk;
-        } catch (err) {
-          if (err instanceof Error && err.message.startsWith("Agent stream error:")) {
-            throw err;
-          }
-          accumulated += payload;
-        }
-      }
-      continue;
-    }
-
-    // SSE format: data: {...} or data: [DONE]
-    if (trimmed.startsWith("data:")) {
-      formatDetected = "sse";
-      const data = trimmed.slice(trimmed.startsWith("data: ") ? 6 : 5).trim();
-      if (data === "[DONE]" || !data) continue;
-
-      try {
-        const parsed = JSON.parse(data);
-        const streamError = extractStreamError(parsed);
-        if (streamError) {
-          throw new Error(`Agent stream error: ${streamError}`);
-        }
-        const chunk = extractTextChunk(parsed);
-        if (chunk) accumulated += chunk;
-      } catch (err) {
-        if (err instanceof Error && err.message.startsWith("Agent stream error:")) {
-          throw err;
-        }
-        // Not JSON — treat as plain text SSE data
-        accumulated += data;
-      }
-      continue;
-    }
-
-    // event: lines in SSE — skip
-    if (trimmed.startsWith("event:")) continue;
-
-    // Plain text (only accumulate if no structured format detected)
-    if (!formatDetected) {
-      formatDetected = "plain";
-      accumulated += trimmed + "\n";
-    } else if (formatDetected === "plain") {
-      accumulated += trimmed + "\n";
+async function readStreamResponse(
+  res: Response,
+  start: number
+): Promise<{ text: string; toolCalls: ToolCall[]; metrics: StreamMetrics }> {
+  const parser = new StreamParser();
+  const tokenTimes: number[] = [];
+  let buffer = "";
+  let progress = 0;
+
+  const consume = (chunk: string, now: number, final: boolean) => {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = final ? "" : lines.pop() ?? "";
+    for (const line of lines) parser.pushLine(line);
+
+    const current = parser.textLength + parser.pendingPlainLength(buffer);
+    if (current > progress) tokenTimes.push(now - start);
+    progress = current;
+  };
+
+  const reader = res.body?.getReader();
+  if (reader) {
+    const decoder = new TextDecoder();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      consume(decoder.decode(value, { stream: true }), performance.now(), false);
     }
+    consume(decoder.decode(), performance.now(), true);
+  } else {
+    consume(await res.text(), performance.now(), true);
   }
 
-  return accumulated.trim();
-}
-
-function extractTextChunk(payload: unknown): string | null {
-  if (typeof payload === "string") return payload;
-  if (typeof payload !== "object" || payload === null) return null;
-
-  const obj = payload as Record<string, unknown>;
-
-  // Vercel AI SDK UI message stream variants:
-  // {"type":"text-delta","textDelta":"..."} or {"type":"text-delta","delta":"..."}
-  if (obj.type === "text-delta") {
-    if (typeof obj.textDelta === "string") return obj.textDelta;
-    if (typeof obj.delta === "string") return obj.delta;
-    if (typeof obj.text === "string") return obj.text;
-  }
-
-  // OpenAI streaming format: {"choices":[{"delta":{"content":"..."}}]}
-  if (Array.isArray(obj.choices) && obj.choices.length > 0) {
-    const choice = obj.choices[0];
-    if (typeof choice === "object" && choice !== null) {
-      const delta = (choice as Record<string, unknown>).delta;
-      if (typeof delta === "object" && delta !== null) {
-        const content = (delta as Record<string, unknown>).content;
-        if (typeof content === "string") return content;
-      }
-    }
-  }
-
-  // Generic common fields
-  for (const key of ["textDelta", "delta", "text", "content"]) {
-    const value = obj[key];
-    if (typeof value === "string") return value;
-  }
-
-  // Anthropic-style content array: [{ type: "text", text: "..." }]
-  if (Array.isArray(obj.content)) {
-    let text = "";
-    for (const part of obj.content) {
-      if (typeof part === "string") {
-        text += part;
-        continue;
-      }
-      if (typeof part !== "object" || part === null) continue;
-      const item = part as Record<string, unknown>;
-      if (typeof item.text === "string") text += item.text;
-      else if (typeof item.content === "string") text += item.content;
-      else if (typeof item.delta === "string") text += item.delta;
-    }
-    if (text) return text;
-  }
-
-  return null;
-}
-
-function extractStreamError(payload: unknown): string | null {
-  if (typeof payload !== "object" || payload === null) return null;
-  const obj = payload as Record<string, unknown>;
-
-  if (obj.type === "error") {
-    if (typeof obj.errorText === "string") return obj.errorText;
-    if (typeof obj.message === "string") return obj.message;
-  }
-
-  if (typeof obj.error === "string") return obj.error;
-  if (typeof obj.errorText === "string") return obj.errorText;
-
-  if (typeof obj.error === "object" && obj.error !== null) {
-    const err = obj.error as Record<string, unknown>;
-    if (typeof err.message === "string") return err.message;
-  }
-
-  return null;
-}
-
-function parseResponse(data: unknown): string {
-  if (typeof data === "string") return data;
-  if (typeof data !== "object" || data === null) return String(data);
-
-  const obj = data as Record<string, unknown>;
-
-  for (const key of ["message", "text", "content", "response"]) {
-    if (typeof obj[key] === "string") return obj[key] as string;
-  }
-
-  // Check nested: data.choices[0].message.content (OpenAI-style)
-  if (Array.isArray(obj.choices) && obj.choices.length > 0) {
-    const choice = obj.choices[0] as Record<string, unknown>;
-    if (choice.message && typeof choice.message === "object") {
-      const msg = choice.message as Record<string, unknown>;
-      if (typeof msg.content === "string") return msg.content;
-    }
-  }
-
-  return JSON.stringify(data);
-}
-
-function extractToolCalls(data: unknown): { name: string; arguments: Record<string, unknown> }[] {
-  if (typeof data !== "object" || data === null) return [];
-  const obj = data as Record<string, unknown>;
-
-  if (Array.isArray(obj.tool_calls)) {
-    return obj.tool_calls.map((tc: Record<string, unknown>) => ({
-      name: String(tc.name ?? tc.function ?? "unknown"),
-      arguments:
-        typeof tc.arguments === "object" && tc.arguments !== null
-          ? (tc.arguments as Record<string, unknown>)
-          : {},
-    }));
-  }
-
-  return [];
-}
-
-function extractTokenUsage(
-  data: unknown
-): { input: number; output: number; total: number } | undefined {
-  if (typeof data !== "object" || data === null) return undefined;
-  const obj = data as Record<string, unknown>;
-
-  if (typeof obj.usage === "object" && obj.usage !== null) {
-    const usage = obj.usage as Record<string, unknown>;
-    const input = Number(usage.prompt_tokens ?? usage.input ?? 0);
-    const output = Number(usage.completion_tokens ?? usage.output ?? 0);
-    return { input, output, total: input + output };
-  }
+  const metrics: StreamMetrics = {
+    timeToFirstTokenMs: tokenTimes[0],
+    interTokenGapsMs: tokenTimes.slice(1).map((t, i) => t - tokenTimes[i]),
+    totalStreamMs: performance.now() - start,
+    chunkCount: tokenTimes.length,
+  };
 
-  return undefined;
+  return { text: parser.text(), toolCalls: parser.toolCalls(), metrics };
 }
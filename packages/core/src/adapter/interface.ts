@@ -1,3 +1,5 @@
+import type { ResponseShape } from "./response-shapes.js";
+
 export interface ToolCall {
   name: string;
   arguments: Record<string, unknown>;
@@ -10,11 +12,26 @@ export interface TokenUsage {
   total: number;
 }
 
+/** Timing of a streamed response, measured from when the request was sent */
+export interface StreamMetrics {
+  /** Time until the first text chunk arrived. Undefined if the stream carried no text. */
+  timeToFirstTokenMs?: number;
+  /** Gaps between consecutive text chunks */
+  interTokenGapsMs: number[];
+  /** Time until the stream closed */
+  totalStreamMs: number;
+  /** Number of text chunks received */
+  chunkCount: number;
+}
+
 export class AgentResponse {
   readonly text: string;
   readonly toolCalls: ToolCall[];
   readonly latencyMs: number;
   readonly tokenUsage?: TokenUsage;
+  readonly streamMetrics?: StreamMetrics;
+  /** Transport-level retries (HTTP status, network error, timeout) before this response arrived */
+  readonly retries?: number;
   readonly raw?: unknown;
 
   constructor(opts: {
@@ -22,12 +39,16 @@ export class AgentResponse {
     toolCalls?: ToolCall[];
     latencyMs: number;
     tokenUsage?: TokenUsage;
+    streamMetrics?: StreamMetrics;
+    retries?: number;
     raw?: unknown;
   }) {
     this.text = opts.text;
     this.toolCalls = opts.toolCalls ?? [];
     this.latencyMs = opts.latencyMs;
     this.tokenUsage = opts.tokenUsage;
+    this.streamMetrics = opts.streamMetrics;
+    this.retries = opts.retries;
     this.raw = opts.raw;
   }
 
@@ -38,9 +59,84 @@ export class AgentResponse {
 
 export interface ConversationContext {
   conversationId: string;
+  /** Name of the scenario driving the conversation, when run by ScenarioRunner */
+  scenario?: string;
   turns: { role: string; message: string }[];
 }
 
+/**
+ * Session handling for HTTP agents that keep conversation state server-side.
+ * Dot paths ("thread.id", "data.0.session") address nested JSON fields.
+ */
+export interface HttpSessionConfig {
+  /** Where the session id comes from: a dot path into JSON responses, or a response header */
+  idFrom?: { jsonPath: string } | { header: string };
+  /** How the session id is sent on later turns: a body field (dot path), a header, or a cookie */
+  sendAs?: { bodyField: string } | { header: string; prefix?: string } | { cookie: string };
+  /** Called before a conversation's first turn; the session id is read from its response with `idFrom` */
+  create?: { url: string; method?: string; headers?: Record<string, string>; body?: unknown };
+  /** Called when a conversation ends, and for each open session on reset() and disconnect(). "{sessionId}" in the url is replaced. Default method: DELETE */
+  delete?: { url: string; method?: string; headers?: Record<string, string> };
+  /** Store Set-Cookie headers per conversation and send them back. Default: true */
+  cookies?: boolean;
+  /** Keep sending the full history ("messages" format) once a session is established. Default: false */
+  sendHistory?: boolean;
+}
+
+/** Credentials added to every request an HttpAdapter makes */
+export type AgentAuthConfig =
+  | {
+      /** Run a shell command and send its stdout as a bearer token */
+      type: "bearer-command";
+      command: string;
+      /** Re-run the command after this long. Default: only when the agent responds 401 */
+      refreshIntervalMs?: number;
+      /** Default: "Authorization" (sent as "Bearer <token>") */
+      header?: string;
+    }
+  | {
+      /** OAuth2 client credentials grant; the token is cached until it expires or the agent responds 401 */
+      type: "oauth2-client-credentials";
+      tokenUrl: string;
+      clientId: string;
+      clientSecret: string;
+      scope?: string;
+      audience?: string;
+      /** Extra form parameters for the token request */
+      params?: Record<string, string>;
+      /** "body" sends client_id/client_secret as form fields, "basic" as an Authorization header. Default: "body" */
+      clientAuth?: "body" | "basic";
+    }
+  | {
+      /** HMAC signature over each request */
+      type: "hmac";
+      secret: string;
+      /** Default: "sha256" */
+      algorithm?: string;
+      /** Default: "hex" */
+      encoding?: "hex" | "base64";
+      /** Header carrying the signature. Default: "X-Signature" */
+      header?: string;
+      /** Prepended to the signature, e.g. "sha256=" */
+      prefix?: string;
+      /** Header carrying the Unix timestamp (seconds) that was signed. Default: "X-Timestamp" */
+      timestampHeader?: string;
+      /** String to sign. Default: `${timestamp}.${body}` */
+      payload?: (req: { method: string; url: string; body: string; timestamp: string }) => string;
+    };
+
+/** Retry policy for HTTP agents. Network errors and timeouts are retried as well as the listed statuses. */
+export interface HttpRetryConfig {
+  /** Default: 2 */
+  maxRetries?: number;
+  /** Default: [408, 429, 502, 503, 504] */
+  statusCodes?: number[];
+  /** First backoff delay, doubled on each retry with jitter. A Retry-After header takes precedence, up to maxDelayMs. Default: 500ms */
+  baseDelayMs?: number;
+  /** Default: 10000ms */
+  maxDelayMs?: number;
+}
+
 export type AgentConfig =
   | {
       type: "http";
@@ -50,11 +146,69 @@ export type AgentConfig =
       requestFormat?: "messages" | "legacy";
       bodyTemplate?: (msg: string, ctx?: ConversationContext) => unknown;
       responseParser?: (data: unknown) => string;
+      /**
+       * How to read tool calls, token usage and text from JSON responses. A registered shape name
+       * ("openai-chat", "openai-responses", "anthropic", "ai-sdk", "generic") or a ResponseShape.
+       * Default: "auto" — detect from the response body.
+       */
+      responseShape?: string | ResponseShape;
       /** When true, reads streaming text responses (SSE/AI SDK) instead of calling res.json() */
       streaming?: boolean;
+      /** Server-side conversation state: session id and cookies are tracked per conversation */
+      session?: HttpSessionConfig;
+      /** Authentication beyond static headers: bearer-from-command, OAuth2 client credentials, HMAC signing */
+      auth?: AgentAuthConfig;
+      /** Abort a request attempt (including reading its body) after this long. Default: no timeout */
+      timeoutMs?: number;
+      /** Retry failed requests: a retry count or a retry policy. Default: no retries */
+      retry?: number | HttpRetryConfig;
+      /** Limit request starts across every conversation using this adapter */
+      rateLimit?: { requestsPerSecond: number; burst?: number };
+    }
+  | {
+      type: "subprocess";
+      command: string;
+      args?: string[];
+      cwd?: string;
+      /** Extra environment variables, merged over the parent process environment */
+      env?: Record<string, string>;
+    }
+  | {
+      type: "openai-assistant";
+      assistantId: string;
+      apiKey?: string;
+      /** Assistants API base URL. Default: "https://api.openai.com/v1" */
+      baseURL?: string;
+      /** How often to poll run status. Default: 500ms */
+      pollIntervalMs?: number;
+      /** Give up on a run that hasn't finished after this long. Default: 120000ms */
+      runTimeoutMs?: number;
+      /** Produces outputs for `required_action` tool calls. Without it, calls are recorded and answered with a stub error. */
+      toolHandler?: (name: string, args: Record<string, unknown>) => unknown | Promise<unknown>;
+    }
+  | {
+      type: "websocket";
+      url: string;
+      /** Sent with the upgrade request */
+      headers?: Record<string, string>;
+      /** Builds the frame sent for each user turn. Strings are sent as-is, anything else as JSON. */
+      messageTemplate?: (msg: string, ctx?: ConversationContext) => unknown;
+      /** Turns the frames received during a turn (JSON-parsed where possible) into the response */
+      responseParser?: (
+        frames: unknown[]
+      ) => string | { text: string; toolCalls?: ToolCall[]; tokenUsage?: TokenUsage };
+      /** When the agent's turn is over. Any configured condition ends it. */
+      endOfTurn?: {
+        /** Frame that ends the turn — matched against the raw text or the frame's `type`. Default: "done" */
+        sentinel?: string;
+        /** End the turn after this long without frames, once the first frame has arrived */
+        idleMs?: number;
+        /** End the turn when this returns true for a received frame */
+        predicate?: (frame: unknown, frames: unknown[]) => boolean;
+        /** Fail the turn if it hasn't ended after this long. Default: 60000ms */
+        timeoutMs?: number;
+      };
     }
-  | { type: "subprocess"; command: string; args?: string[]; cwd?: string }
-  | { type: "openai-assistant"; assistantId: string; apiKey?: string }
   | { type: "custom"; module: string };
 
 export interface AgentAdapter {
@@ -62,4 +216,9 @@ export interface AgentAdapter {
   send(message: string, context?: ConversationContext): Promise<AgentResponse>;
   reset(): Promise<void>;
   disconnect(): Promise<void>;
+  /**
+   * Release one conversation's state (its process, socket or server session) without touching
+   * the others. The runner calls it when a scenario run ends; a turn still in flight is rejected.
+   */
+  endConversation?(conversationId: string): Promise<void>;
 }
@@ -0,0 +1,264 @@
+import {
+  AgentAdapter,
+  AgentConfig,
+  AgentResponse,
+  ConversationContext,
+  ToolCall,
+  TokenUsage,
+} from "./interface.js";
+import { sleep } from "./http-retry.js";
+import { isRecord } from "../util.js";
+
+type AssistantConfig = Extract<AgentConfig, { type: "openai-assistant" }>;
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_SESSION = "default";
+const DEFAULT_POLL_INTERVAL_MS = 500;
+const DEFAULT_RUN_TIMEOUT_MS = 120000;
+const TERMINAL_RUN_STATUSES = new Set(["completed", "failed", "cancelled", "expired", "incomplete"]);
+
+/** Output submitted for tool calls when no toolHandler is configured */
+const UNHANDLED_TOOL_OUTPUT = JSON.stringify({
+  error: "Tool execution is not available in the Fabrik test harness",
+});
+
+export interface AssistantRun {
+  id: string;
+  status: string;
+  required_action?: {
+    type: string;
+    submit_tool_outputs?: {
+      tool_calls: { id: string; type: string; function: { name: string; arguments: string } }[];
+    };
+  } | null;
+  last_error?: { code?: string; message?: string } | null;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null;
+}
+
+export interface AssistantObject {
+  id: string;
+  name?: string | null;
+  description?: string | null;
+  instructions?: string | null;
+  model?: string;
+  tools?: {
+    type: string;
+    function?: { name: string; description?: string; parameters?: Record<string, unknown> };
+  }[];
+  metadata?: Record<string, unknown> | null;
+}
+
+interface ThreadMessage {
+  role: string;
+  run_id?: string | null;
+  content: { type: string; text?: { value: string } }[];
+}
+
+/**
+ * Minimal client for the OpenAI Assistants v2 REST API.
+ * Shared by the adapter and assistant discovery; pointing `baseURL` at a local
+ * mock of the same routes is enough to test against.
+ */
+export class AssistantsClient {
+  private apiKey: string;
+  private baseURL: string;
+
+  constructor(opts: { apiKey?: string; baseURL?: string }) {
+    const apiKey = opts.apiKey ?? process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error("OpenAI Assistants require an API key. Set OPENAI_API_KEY or agent.apiKey.");
+    }
+    this.apiKey = apiKey;
+    this.baseURL = (opts.baseURL ?? DEFAULT_BASE_URL).replace(/\/$/, "");
+  }
+
+  getAssistant(assistantId: string): Promise<AssistantObject> {
+    return this.request("GET", `/assistants/${assistantId}`);
+  }
+
+  async createThread(): Promise<string> {
+    const thread = await this.request<{ id: string }>("POST", "/threads", {});
+    return thread.id;
+  }
+
+  async addMessage(threadId: string, content: string): Promise<void> {
+    await this.request("POST", `/threads/${threadId}/messages`, { role: "user", content });
+  }
+
+  createRun(threadId: string, assistantId: string): Promise<AssistantRun> {
+    return this.request("POST", `/threads/${threadId}/runs`, { assistant_id: assistantId });
+  }
+
+  getRun(threadId: string, runId: string): Promise<AssistantRun> {
+    return this.request("GET", `/threads/${threadId}/runs/${runId}`);
+  }
+
+  submitToolOutputs(
+    threadId: string,
+    runId: string,
+    outputs: { tool_call_id: string; output: string }[]
+  ): Promise<AssistantRun> {
+    return this.request("POST", `/threads/${threadId}/runs/${runId}/submit_tool_outputs`, {
+      tool_outputs: outputs,
+    });
+  }
+
+  cancelRun(threadId: string, runId: string): Promise<AssistantRun> {
+    return this.request("POST", `/threads/${threadId}/runs/${runId}/cancel`);
+  }
+
+  async listRunMessages(threadId: string, runId: string): Promise<ThreadMessage[]> {
+    const res = await this.request<{ data: ThreadMessage[] }>(
+      "GET",
+      `/threads/${threadId}/messages?order=asc&run_id=${encodeURIComponent(runId)}`
+    );
+    return res.data.filter((m) => !m.run_id || m.run_id === runId);
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const res = await fetch(`${this.baseURL}${path}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+        "OpenAI-Beta": "assistants=v2",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!res.ok) {
+      throw new Error(`OpenAI Assistants API error ${res.status} on ${method} ${path}: ${await res.text()}`);
+    }
+
+    return (await res.json()) as T;
+  }
+}
+
+export class OpenAIAssistantAdapter implements AgentAdapter {
+  private config!: AssistantConfig;
+  private client!: AssistantsClient;
+  private threads = new Map<string, string>();
+
+  async connect(config: AgentConfig): Promise<void> {
+    if (config.type !== "openai-assistant") {
+      throw new Error(
+        `OpenAIAssistantAdapter requires config type "openai-assistant", got "${config.type}"`
+      );
+    }
+    this.config = config;
+    this.client = new AssistantsClient({ apiKey: config.apiKey, baseURL: config.baseURL });
+  }
+
+  async send(message: string, context?: ConversationContext): Promise<AgentResponse> {
+    const start = performance.now();
+    const threadId = await this.getThread(context?.conversationId ?? DEFAULT_SESSION);
+
+    await this.client.addMessage(threadId, message);
+    let run = await this.client.createRun(threadId, this.config.assistantId);
+
+    const toolCalls: ToolCall[] = [];
+    const pollInterval = this.config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const deadline = Date.now() + (this.config.runTimeoutMs ?? DEFAULT_RUN_TIMEOUT_MS);
+
+    while (!TERMINAL_RUN_STATUSES.has(run.status)) {
+      // Checked before tool calls too, so a run stuck requesting them still times out
+      if (Date.now() > deadline) {
+        // The thread rejects new runs while this one is active, which would fail the next turn too
+        const cancelError = await this.client.cancelRun(threadId, run.id).then(
+          () => "",
+          (err: Error) => `; cancelling it failed: ${err.message}`
+        );
+        throw new Error(
+          `Assistant run ${run.id} did not finish (last status "${run.status}")${cancelError}`
+        );
+      }
+
+      if (run.status === "requires_action" && run.required_action?.submit_tool_outputs) {
+        const outputs = [];
+        for (const call of run.required_action.submit_tool_outputs.tool_calls) {
+          const toolCall = await this.handleToolCall(call.function.name, call.function.arguments);
+          toolCalls.push(toolCall);
+          outputs.push({
+            tool_call_id: call.id,
+            output:
+              toolCall.result === undefined
+                ? UNHANDLED_TOOL_OUTPUT
+                : typeof toolCall.result === "string"
+                  ? toolCall.result
+                  : JSON.stringify(toolCall.result),
+          });
+        }
+        run = await this.client.submitToolOutputs(threadId, run.id, outputs);
+        continue;
+      }
+
+      await sleep(pollInterval);
+      run = await this.client.getRun(threadId, run.id);
+    }
+
+    if (run.status !== "completed") {
+      const reason = run.last_error?.message ? `: ${run.last_error.message}` : "";
+      throw new Error(`Assistant run ${run.id} ended with status "${run.status}"${reason}`);
+    }
+
+    const messages = await this.client.listRunMessages(threadId, run.id);
+    const text = messages
+      .filter((m) => m.role === "assistant")
+      .flatMap((m) => m.content)
+      .map((c) => (c.type === "text" ? c.text?.value ?? "" : ""))
+      .join("\n")
+      .trim();
+
+    return new AgentResponse({
+      text,
+      toolCalls,
+      latencyMs: performance.now() - start,
+      tokenUsage: toTokenUsage(run.usage),
+      raw: { run, messages },
+    });
+  }
+
+  async reset(): Promise<void> {
+    this.threads.clear();
+  }
+
+  async disconnect(): Promise<void> {
+    this.threads.clear();
+  }
+
+  async endConversation(conversationId: string): Promise<void> {
+    this.threads.delete(conversationId);
+  }
+
+  private async getThread(conversationId: string): Promise<string> {
+    const existing = this.threads.get(conversationId);
+    if (existing) return existing;
+
+    const threadId = await this.client.createThread();
+    this.threads.set(conversationId, threadId);
+    return threadId;
+  }
+
+  private async handleToolCall(name: string, rawArgs: string): Promise<ToolCall> {
+    let args: Record<string, unknown> = {};
+    try {
+      const parsed = JSON.parse(rawArgs);
+      if (isRecord(parsed)) args = parsed;
+    } catch {
+      // Leave arguments empty when the model produced invalid JSON
+    }
+
+    const result = this.config.toolHandler
+      ? await this.config.toolHandler(name, args)
+      : undefined;
+
+    return { name, arguments: args, result };
+  }
+}
+
+function toTokenUsage(usage: AssistantRun["usage"]): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const input = usage.prompt_tokens ?? 0;
+  const output = usage.completion_tokens ?? 0;
+  return { input, output, total: usage.total_tokens ?? input + output };
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { getResponseShape, registerResponseShape, resolveResponseShape } from "./response-shapes.js";
+
+const openaiChat = {
+  object: "chat.completion",
+  choices: [
+    {
+      message: {
+        role: "assistant",
+        content: "It is sunny.",
+        tool_calls: [{ id: "c1", type: "function", function: { name: "weather", arguments: '{"city":"Oslo"}' } }],
+      },
+    },
+  ],
+  usage: { prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 },
+};
+
+const openaiResponses = {
+  object: "response",
+  output: [
+    { type: "web_search_call", id: "ws1", status: "completed", query: "oslo weather" },
+    { type: "function_call", call_id: "f1", name: "weather", arguments: '{"city":"Oslo"}' },
+    { type: "function_call_output", call_id: "f1", output: '{"temp":21}' },
+    { type: "message", content: [{ type: "output_text", text: "21 degrees." }] },
+  ],
+  usage: { input_tokens: 20, output_tokens: 6 },
+};
+
+const anthropic = {
+  type: "message",
+  content: [
+    { type: "text", text: "Looking it up. " },
+    { type: "tool_use", id: "t1", name: "weather", input: { city: "Oslo" } },
+    { type: "tool_result", tool_use_id: "t1", content: "21 degrees" },
+    { type: "text", text: "Done." },
+  ],
+  usage: { input_tokens: 30, output_tokens: 8 },
+};
+
+const aiSdk = {
+  text: "21 degrees.",
+  finishReason: "stop",
+  steps: [
+    {
+      toolCalls: [{ toolCallId: "s1", toolName: "weather", input: { city: "Oslo" } }],
+      toolResults: [{ toolCallId: "s1", output: { temp: 21 } }],
+    },
+    { toolCalls: [{ toolCallId: "s2", toolName: "forecast", args: { days: 3 } }], toolResults: [] },
+  ],
+  usage: { inputTokens: 40, outputTokens: 9, totalTokens: 50 },
+};
+
+describe("response shapes", () => {
+  it("auto-detects each built-in shape", () => {
+    expect(resolveResponseShape(undefined, openaiChat).name).toBe("openai-chat");
+    expect(resolveResponseShape("auto", openaiResponses).name).toBe("openai-responses");
+    expect(resolveResponseShape(undefined, anthropic).name).toBe("anthropic");
+    expect(resolveResponseShape(undefined, aiSdk).name).toBe("ai-sdk");
+    expect(resolveResponseShape(undefined, { message: "hi" }).name).toBe("generic");
+  });
+
+  it("reads OpenAI chat completions", () => {
+    const shape = getResponseShape("openai-chat");
+    expect(shape.text(openaiChat)).toBe("It is sunny.");
+    expect(shape.toolCalls(openaiChat)).toEqual([{ name: "weather", arguments: { city: "Oslo" } }]);
+    expect(shape.tokenUsage(openaiChat)).toEqual({ input: 10, output: 4, total: 14 });
+  });
+
+  it("reads OpenAI Responses output items, pairing function call outputs", () => {
+    const shape = getResponseShape("openai-responses");
+    expect(shape.text(openaiResponses)).toBe("21 degrees.");
+    expect(shape.toolCalls(openaiResponses)).toEqual([
+      { name: "web_search", arguments: { query: "oslo weather" } },
+      { name: "weather", arguments: { city: "Oslo" }, result: { temp: 21 } },
+    ]);
+    expect(shape.tokenUsage(openaiResponses)).toEqual({ input: 20, output: 6, total: 26 });
+  });
+
+  it("reads Anthropic content blocks, pairing echoed tool results", () => {
+    const shape = getResponseShape("anthropic");
+    expect(shape.text(anthropic)).toBe("Looking it up. Done.");
+    expect(shape.toolCalls(anthropic)).toEqual([
+      { name: "weather", arguments: { city: "Oslo" }, result: "21 degrees" },
+    ]);
+    expect(shape.tokenUsage(anthropic)).toEqual({ input: 30, output: 8, total: 38 });
+  });
+
+  it("reads AI SDK results across steps", () => {
+    const shape = getResponseShape("ai-sdk");
+    expect(shape.text(aiSdk)).toBe("21 degrees.");
+    expect(shape.toolCalls(aiSdk)).toEqual([
+      { name: "weather", arguments: { city: "Oslo" }, result: { temp: 21 } },
+      { name: "forecast", arguments: { days: 3 } },
+    ]);
+    expect(shape.tokenUsage(aiSdk)).toEqual({ input: 40, output: 9, total: 50 });
+  });
+
+  it("reads hand-rolled bodies with the generic shape", () => {
+    const shape = getResponseShape("generic");
+    const body = {
+      response: "Booked.",
+      toolCalls: [{ toolName: "book", args: '{"room":4}', output: "ok" }, { function: "cancel" }],
+      usage: { input: 3, output: 2 },
+    };
+    expect(shape.text(body)).toBe("Booked.");
+    expect(shape.toolCalls(body)).toEqual([
+      { name: "book", arguments: { room: 4 }, result: "ok" },
+      { name: "cancel", arguments: {} },
+    ]);
+    expect(shape.tokenUsage(body)).toEqual({ input: 3, output: 2, total: 5 });
+    expect(shape.text({ unexpected: true })).toBe('{"unexpected":true}');
+  });
+
+  it("ignores tool arguments that are not objects", () => {
+    const body = {
+      choices: [{ message: { content: "", tool_calls: [{ function: { name: "list", arguments: "[1,2]" } }] } }],
+    };
+    expect(getResponseShape("openai-chat").toolCalls(body)).toEqual([{ name: "list", arguments: {} }]);
+  });
+
+  it("tries registered shapes before the built-ins and resolves them by name", () => {
+    registerResponseShape({
+      name: "test-envelope",
+      detect: (data) => typeof data === "object" && data !== null && "envelope" in data,
+      text: () => "from envelope",
+      toolCalls: () => [],
+      tokenUsage: () => undefined,
+    });
+    const body = { envelope: true, message: "generic would read this" };
+    expect(resolveResponseShape(undefined, body).name).toBe("test-envelope");
+    expect(resolveResponseShape("test-envelope", {}).text({})).toBe("from envelope");
+  });
+
+  it("rejects unknown shape names, listing the registered ones", () => {
+    expect(() => getResponseShape("soap")).toThrow(/Unknown response shape "soap".*openai-chat/);
+  });
+});
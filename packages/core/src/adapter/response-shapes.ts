@@ -0,0 +1,325 @@
+import type { ToolCall, TokenUsage } from "./interface.js";
+import { isRecord } from "../util.js";
+
+/**
+ * Describes how to read a non-streaming JSON response body from a particular
+ * agent framework or API. HttpAdapter picks a shape by name (`responseShape`
+ * in the agent config) or auto-detects one from the body.
+ */
+export interface ResponseShape {
+  name: string;
+  /** Whether this shape recognises the response body. Used for auto-detection. */
+  detect(data: unknown): boolean;
+  text(data: unknown): string;
+  toolCalls(data: unknown): ToolCall[];
+  tokenUsage(data: unknown): TokenUsage | undefined;
+}
+
+const registry = new Map<string, ResponseShape>();
+
+/**
+ * Register a response shape. Shapes registered later are tried first during
+ * auto-detection, so user shapes take precedence over the built-ins.
+ */
+export function registerResponseShape(shape: ResponseShape): void {
+  registry.delete(shape.name);
+  registry.set(shape.name, shape);
+}
+
+export function getResponseShape(name: string): ResponseShape {
+  const shape = registry.get(name);
+  if (!shape) {
+    throw new Error(
+      `Unknown response shape "${name}". Registered shapes: ${[...registry.keys()].join(", ")}`
+    );
+  }
+  return shape;
+}
+
+/** Pick the shape for a response body: an explicit shape/name, or the first registered shape that detects it. */
+export function resolveResponseShape(
+  shape: string | ResponseShape | undefined,
+  data: unknown
+): ResponseShape {
+  if (typeof shape === "object") return shape;
+  if (shape && shape !== "auto") return getResponseShape(shape);
+
+  const candidates = [...registry.values()].reverse();
+  return candidates.find((s) => s.name !== "generic" && s.detect(data)) ?? genericShape;
+}
+
+// ── Built-in shapes ──────────────────────────────────────
+
+/** OpenAI chat completions: choices[0].message with tool_calls carrying JSON-string arguments */
+const openaiChatShape: ResponseShape = {
+  name: "openai-chat",
+  detect(data) {
+    if (!isRecord(data) || !Array.isArray(data.choices) || data.choices.length === 0) return false;
+    return data.object === "chat.completion" || isRecord(firstChoiceMessage(data));
+  },
+  text(data) {
+    const msg = firstChoiceMessage(data);
+    if (!msg) return "";
+    if (typeof msg.content === "string") return msg.content;
+    if (Array.isArray(msg.content)) {
+      return msg.content
+        .map((part) => (isRecord(part) && typeof part.text === "string" ? part.text : ""))
+        .join("");
+    }
+    return "";
+  },
+  toolCalls(data) {
+    const msg = firstChoiceMessage(data);
+    if (!msg) return [];
+
+    const calls: ToolCall[] = [];
+    if (Array.isArray(msg.tool_calls)) {
+      for (const tc of msg.tool_calls) {
+        if (!isRecord(tc) || !isRecord(tc.function)) continue;
+        calls.push({
+          name: String(tc.function.name ?? "unknown"),
+          arguments: parseArguments(tc.function.arguments),
+        });
+      }
+    }
+    // Deprecated single function_call field
+    if (isRecord(msg.function_call)) {
+      calls.push({
+        name: String(msg.function_call.name ?? "unknown"),
+        arguments: parseArguments(msg.function_call.arguments),
+      });
+    }
+    return calls;
+  },
+  tokenUsage(data) {
+    return readUsage(data, "prompt_tokens", "completion_tokens");
+  },
+};
+
+/** OpenAI Responses API: output[] of message, function_call and built-in *_call items */
+const openaiResponsesShape: ResponseShape = {
+  name: "openai-responses",
+  detect(data) {
+    if (!isRecord(data)) return false;
+    return data.object === "response" || (Array.isArray(data.output) && data.output.some(
+      (item) => isRecord(item) && typeof item.type === "string"
+    ));
+  },
+  text(data) {
+    if (!isRecord(data)) return "";
+    if (typeof data.output_text === "string") return data.output_text;
+    return outputItems(data)
+      .filter((item) => item.type === "message" && Array.isArray(item.content))
+      .flatMap((item) => item.content as unknown[])
+      .map((part) => (isRecord(part) && typeof part.text === "string" ? part.text : ""))
+      .join("");
+  },
+  toolCalls(data) {
+    if (!isRecord(data)) return [];
+    const items = outputItems(data);
+
+    const results = new Map<string, unknown>();
+    for (const item of items) {
+      if (item.type === "function_call_output" && typeof item.call_id === "string") {
+        results.set(item.call_id, parseMaybeJson(item.output));
+      }
+    }
+
+    const calls: ToolCall[] = [];
+    for (const item of items) {
+      const type = String(item.type ?? "");
+      if (type === "function_call") {
+        calls.push(withResult(
+          { name: String(item.name ?? "unknown"), arguments: parseArguments(item.arguments) },
+          typeof item.call_id === "string" ? results.get(item.call_id) : undefined
+        ));
+      } else if (type.endsWith("_call")) {
+        // Built-in tools (web_search_call, file_search_call, ...) record their inputs inline
+        const { type: _type, id: _id, status: _status, ...rest } = item;
+        calls.push({ name: type.slice(0, -"_call".length), arguments: rest });
+      }
+    }
+    return calls;
+  },
+  tokenUsage(data) {
+    return readUsage(data, "input_tokens", "output_tokens");
+  },
+};
+
+/** Anthropic Messages API: content blocks of type text / tool_use (and tool_result when echoed back) */
+const anthropicShape: ResponseShape = {
+  name: "anthropic",
+  detect(data) {
+    return isRecord(data) && data.type === "message" && Array.isArray(data.content);
+  },
+  text(data) {
+    return contentBlocks(data)
+      .filter((b) => b.type === "text" && typeof b.text === "string")
+      .map((b) => b.text as string)
+      .join("");
+  },
+  toolCalls(data) {
+    const blocks = contentBlocks(data);
+    const results = new Map<string, unknown>();
+    for (const b of blocks) {
+      if (b.type === "tool_result" && typeof b.tool_use_id === "string") {
+        results.set(b.tool_use_id, b.content);
+      }
+    }
+    return blocks
+      .filter((b) => b.type === "tool_use")
+      .map((b) =>
+        withResult(
+          { name: String(b.name ?? "unknown"), arguments: isRecord(b.input) ? b.input : {} },
+          typeof b.id === "string" ? results.get(b.id) : undefined
+        )
+      );
+  },
+  tokenUsage(data) {
+    return readUsage(data, "input_tokens", "output_tokens");
+  },
+};
+
+/** Vercel AI SDK generateText() result: text, toolCalls/toolResults (per step), usage */
+const aiSdkShape: ResponseShape = {
+  name: "ai-sdk",
+  detect(data) {
+    if (!isRecord(data) || typeof data.text !== "string") return false;
+    return Array.isArray(data.steps) || Array.isArray(data.toolCalls) || "finishReason" in data;
+  },
+  text(data) {
+    return isRecord(data) && typeof data.text === "string" ? data.text : "";
+  },
+  toolCalls(data) {
+    if (!isRecord(data)) return [];
+    // Multi-step results only expose the last step at the top level
+    const steps =
+      Array.isArray(data.steps) && data.steps.length > 0 ? data.steps.filter(isRecord) : [data];
+
+    const calls: ToolCall[] = [];
+    for (const step of steps) {
+      const results = new Map<string, unknown>();
+      for (const r of Array.isArray(step.toolResults) ? step.toolResults : []) {
+        if (isRecord(r) && typeof r.toolCallId === "string") {
+          results.set(r.toolCallId, "output" in r ? r.output : r.result);
+        }
+      }
+      for (const tc of Array.isArray(step.toolCalls) ? step.toolCalls : []) {
+        if (!isRecord(tc)) continue;
+        const args = tc.input ?? tc.args;
+        calls.push(withResult(
+          { name: String(tc.toolName ?? "unknown"), arguments: isRecord(args) ? args : {} },
+          typeof tc.toolCallId === "string" ? results.get(tc.toolCallId) : undefined
+        ));
+      }
+    }
+    return calls;
+  },
+  tokenUsage(data) {
+    if (!isRecord(data) || !isRecord(data.usage)) return undefined;
+    const usage = data.usage;
+    const input = Number(usage.inputTokens ?? usage.promptTokens ?? 0);
+    const output = Number(usage.outputTokens ?? usage.completionTokens ?? 0);
+    return { input, output, total: Number(usage.totalTokens ?? input + output) };
+  },
+};
+
+/** Fallback for hand-rolled agents: common text fields and a top-level tool_calls array */
+const genericShape: ResponseShape = {
+  name: "generic",
+  detect() {
+    return true;
+  },
+  text(data) {
+    if (typeof data === "string") return data;
+    if (!isRecord(data)) return String(data);
+
+    for (const key of ["message", "text", "content", "response"]) {
+      if (typeof data[key] === "string") return data[key] as string;
+    }
+
+    // Check nested: data.choices[0].message.content (OpenAI-style)
+    const msg = firstChoiceMessage(data);
+    if (msg && typeof msg.content === "string") return msg.content;
+
+    return JSON.stringify(data);
+  },
+  toolCalls(data) {
+    if (!isRecord(data)) return [];
+    const toolCalls = Array.isArray(data.tool_calls)
+      ? data.tool_calls
+      : Array.isArray(data.toolCalls)
+        ? data.toolCalls
+        : [];
+
+    return toolCalls.filter(isRecord).map((tc) => {
+      const fn = isRecord(tc.function) ? tc.function : undefined;
+      return withResult(
+        {
+          name: String(
+            tc.name ?? tc.toolName ?? fn?.name ?? (typeof tc.function === "string" ? tc.function : "unknown")
+          ),
+          arguments: parseArguments(tc.arguments ?? tc.args ?? tc.input ?? fn?.arguments),
+        },
+        tc.result ?? tc.output
+      );
+    });
+  },
+  tokenUsage(data) {
+    if (!isRecord(data) || !isRecord(data.usage)) return undefined;
+    const usage = data.usage;
+    const input = Number(usage.prompt_tokens ?? usage.input_tokens ?? usage.input ?? 0);
+    const output = Number(usage.completion_tokens ?? usage.output_tokens ?? usage.output ?? 0);
+    return { input, output, total: input + output };
+  },
+};
+
+for (const shape of [genericShape, aiSdkShape, anthropicShape, openaiResponsesShape, openaiChatShape]) {
+  registerResponseShape(shape);
+}
+
+// ── Helpers ──────────────────────────────────────────────
+
+function firstChoiceMessage(data: unknown): Record<string, unknown> | undefined {
+  if (!isRecord(data) || !Array.isArray(data.choices) || data.choices.length === 0) return undefined;
+  const choice = data.choices[0];
+  return isRecord(choice) && isRecord(choice.message) ? choice.message : undefined;
+}
+
+function outputItems(data: Record<string, unknown>): Record<string, unknown>[] {
+  return Array.isArray(data.output) ? data.output.filter(isRecord) : [];
+}
+
+function contentBlocks(data: unknown): Record<string, unknown>[] {
+  return isRecord(data) && Array.isArray(data.content) ? data.content.filter(isRecord) : [];
+}
+
+/** Tool arguments arrive as objects or JSON strings depending on the API */
+function parseArguments(args: unknown): Record<string, unknown> {
+  if (isRecord(args)) return args;
+  if (typeof args === "string") {
+    const parsed = parseMaybeJson(args);
+    if (isRecord(parsed)) return parsed;
+  }
+  return {};
+}
+
+function parseMaybeJson(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function withResult(call: ToolCall, result: unknown): ToolCall {
+  return result === undefined ? call : { ...call, result };
+}
+
+function readUsage(data: unknown, inputKey: string, outputKey: string): TokenUsage | undefined {
+  if (!isRecord(data) || !isRecord(data.usage)) return undefined;
+  const input = Number(data.usage[inputKey] ?? 0);
+  const output = Number(data.usage[outputKey] ?? 0);
+  return { input, output, total: Number(data.usage.total_tokens ?? input + output) };
+}
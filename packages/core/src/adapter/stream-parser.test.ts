@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { StreamParser } from "./stream-parser.js";
+
+function parseLines(lines: string[]): StreamParser {
+  const parser = new StreamParser();
+  for (const line of lines) parser.pushLine(line);
+  return parser;
+}
+
+describe("StreamParser", () => {
+  describe("AI SDK data stream", () => {
+    it("joins text parts and ignores finish parts", () => {
+      const parser = parseLines(['0:"Hello, "', '0:"world"', 'e:{"finishReason":"stop"}', 'd:{"finishReason":"stop"}']);
+      expect(parser.text()).toBe("Hello, world");
+    });
+
+    it("keeps a text part whose payload isn't JSON as text", () => {
+      expect(parseLines(["0:Hello", '0:" there"']).text()).toBe("Hello there");
+      expect(parseLines(['0:"Hi "', "0:there"]).text()).toBe("Hi there");
+    });
+
+    it("throws on an error part", () => {
+      expect(() => parseLines(['0:"partial"', '3:"rate limited"'])).toThrow("Agent stream error: rate limited");
+    });
+
+    it("throws on an error object in a text part", () => {
+      expect(() => parseLines(['0:{"error":{"message":"boom"}}'])).toThrow("Agent stream error: boom");
+    });
+
+    it("reassembles streamed tool calls with their results", () => {
+      const parser = parseLines([
+        'b:{"toolCallId":"1","toolName":"search"}',
+        'c:{"toolCallId":"1","argsTextDelta":"{\\"query\\":"}',
+        'c:{"toolCallId":"1","argsTextDelta":"\\"shoes\\"}"}',
+        '9:{"toolCallId":"2","toolName":"lookup","args":{"id":7}}',
+        'a:{"toolCallId":"1","result":["a","b"]}',
+        '0:"Found two."',
+      ]);
+      expect(parser.toolCalls()).toEqual([
+        { name: "search", arguments: { query: "shoes" }, result: ["a", "b"] },
+        { name: "lookup", arguments: { id: 7 } },
+      ]);
+      expect(parser.text()).toBe("Found two.");
+    });
+  });
+
+  describe("SSE", () => {
+    it("reads UI message stream text deltas and skips event lines and [DONE]", () => {
+      const parser = parseLines([
+        "event: message",
+        'data: {"type":"start"}',
+        'data: {"type":"text-delta","id":"t","delta":"Hel"}',
+        'data: {"type":"text-delta","id":"t","delta":"lo"}',
+        "data: [DONE]",
+      ]);
+      expect(parser.text()).toBe("Hello");
+    });
+
+    it("reads OpenAI chat completion chunks, including tool call fragments", () => {
+      const parser = parseLines([
+        'data: {"choices":[{"delta":{"content":"Checking"}}]}',
+        'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"name":"weather","arguments":"{\\"city\\""}}]}}]}',
+        'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":":\\"Oslo\\"}"}}]}}]}',
+        "data: [DONE]",
+      ]);
+      expect(parser.text()).toBe("Checking");
+      expect(parser.toolCalls()).toEqual([{ name: "weather", arguments: { city: "Oslo" } }]);
+    });
+
+    it("records tool output errors as results rather than stream errors", () => {
+      const parser = parseLines([
+        'data: {"type":"tool-input-available","toolCallId":"1","toolName":"pay","input":{"amount":5}}',
+        'data: {"type":"tool-output-error","toolCallId":"1","errorText":"declined"}',
+      ]);
+      expect(parser.toolCalls()).toEqual([{ name: "pay", arguments: { amount: 5 }, result: { error: "declined" } }]);
+    });
+
+    it("throws on an error part", () => {
+      expect(() => parseLines(['data: {"type":"error","errorText":"overloaded"}'])).toThrow(
+        "Agent stream error: overloaded"
+      );
+    });
+
+    it("appends data that isn't JSON as text", () => {
+      expect(parseLines(["data: plain words"]).text()).toBe("plain words");
+    });
+  });
+
+  describe("plain text", () => {
+    it("keeps lines that only look like data stream parts", () => {
+      expect(parseLines(["a: yes", "b: no"]).text()).toBe("a: yes\nb: no");
+    });
+
+    it("ignores structured lines once the stream is plain text", () => {
+      expect(parseLines(["Hello", '0:"more"']).text()).toBe('Hello\n0:"more"');
+    });
+  });
+
+  describe("pendingPlainLength", () => {
+    it("counts an incomplete plain line before its newline", () => {
+      expect(new StreamParser().pendingPlainLength("Hello wor")).toBe(9);
+    });
+
+    it("waits while the line could still be structured", () => {
+      const parser = new StreamParser();
+      expect(parser.pendingPlainLength("0:")).toBe(0);
+      expect(parser.pendingPlainLength('0:"Hel')).toBe(0);
+      expect(parser.pendingPlainLength("dat")).toBe(0);
+      expect(parser.pendingPlainLength("data: {")).toBe(0);
+    });
+
+    it("counts nothing once a structured format is detected", () => {
+      const parser = parseLines(['0:"Hi"']);
+      expect(parser.pendingPlainLength("more")).toBe(0);
+    });
+  });
+
+  it("reads complete messages such as WebSocket frames", () => {
+    const parser = new StreamParser();
+    parser.pushMessage('{"type":"text-delta","delta":"Hi"}');
+    parser.pushMessage(" there");
+    expect(parser.text()).toBe("Hi there");
+  });
+});
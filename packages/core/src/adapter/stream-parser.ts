@@ -0,0 +1,319 @@
+import type { ToolCall } from "./interface.js";
+import { isRecord } from "../util.js";
+
+/** Line-by-line parser for streamed agent responses (see readStreamResponse in http.ts) */
+export class StreamParser {
+  private accumulated = "";
+  private formatDetected: "data-stream" | "sse" | "plain" | null = null;
+  private tools = new ToolCallAssembler();
+
+  get textLength(): number {
+    return this.accumulated.trimEnd().length;
+  }
+
+  /**
+   * Length of an incomplete trailing line that will become plain text.
+   * Plain text streams often send tokens without newlines, so they must count
+   * towards time-to-first-token before the line is complete.
+   */
+  pendingPlainLength(partial: string): number {
+    const trimmed = partial.trim();
+    if (!trimmed) return 0;
+    if (this.formatDetected === "plain") return trimmed.length;
+    if (this.formatDetected !== null) return 0;
+
+    // Wait for more bytes while the line could still turn out to be structured
+    const couldBeStructured =
+      /^\d+:/.test(trimmed) ||
+      /^[a-k]:\s*($|["{[\d-])/.test(trimmed) ||
+      /^(data:|event:|id:|retry:)/.test(trimmed) ||
+      /^(\d+|[a-k])$/.test(trimmed) ||
+      ["data:", "event:", "id:", "retry:"].some((marker) => marker.startsWith(trimmed));
+    return couldBeStructured ? 0 : trimmed.length;
+  }
+
+  text(): string {
+    return this.accumulated.trim();
+  }
+
+  toolCalls(): ToolCall[] {
+    return this.tools.finish();
+  }
+
+  /**
+   * Handle one complete message payload: an SSE data field or a WebSocket
+   * frame. JSON payloads go through the tool/error/text extractors; anything
+   * else is appended as plain text.
+   */
+  pushMessage(data: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      this.accumulated += data;
+      return;
+    }
+
+    // Tool parts first: tool-output-error carries errorText but is not a stream error
+    if (this.tools.pushSsePart(parsed)) return;
+    const streamError = extractStreamError(parsed);
+    if (streamError) {
+      throw new Error(`Agent stream error: ${streamError}`);
+    }
+    const chunk = extractTextChunk(parsed);
+    if (chunk) this.accumulated += chunk;
+  }
+
+  pushLine(line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    // Vercel AI SDK data stream protocol: lines like 0:"text chunk"
+    // Format: <code>:<payload> where 0=text, 3=error, 9=tool call, b/c=streamed tool call,
+    // a=tool result, e=finish, d=done, f=metadata
+    const part = this.formatDetected === "plain" ? null : parseDataStreamPart(trimmed);
+    if (part) {
+      this.formatDetected = "data-stream";
+      const { prefix, payload, raw } = part;
+
+      if (prefix === "9" || prefix === "a" || prefix === "b" || prefix === "c") {
+        this.tools.pushDataStreamPart(prefix, payload);
+        return;
+      }
+
+      // 3 = error message
+      if (prefix === "3") {
+        throw new Error(`Agent stream error: ${typeof payload === "string" ? payload : raw}`);
+      }
+
+      // 0 = text token
+      if (prefix === "0") {
+        // A text part that isn't valid JSON is still text
+        if (payload === undefined) {
+          this.accumulated += raw;
+          return;
+        }
+        const streamError = extractStreamError(payload);
+        if (streamError) {
+          throw new Error(`Agent stream error: ${streamError}`);
+        }
+        const chunk = extractTextChunk(payload);
+        if (chunk) this.accumulated += chunk;
+      }
+      return;
+    }
+
+    // SSE format: data: {...} or data: [DONE]
+    if (trimmed.startsWith("data:")) {
+      this.formatDetected = "sse";
+      const data = trimmed.slice(trimmed.startsWith("data: ") ? 6 : 5).trim();
+      if (data === "[DONE]" || !data) return;
+      this.pushMessage(data);
+      return;
+    }
+
+    // event: lines in SSE — skip
+    if (trimmed.startsWith("event:")) return;
+
+    // Plain text (only accumulate if no structured format detected)
+    if (!this.formatDetected || this.formatDetected === "plain") {
+      this.formatDetected = "plain";
+      this.accumulated += trimmed + "\n";
+    }
+  }
+}
+
+/**
+ * A data stream line is a code prefix followed by a JSON payload (undefined
+ * when it doesn't parse). Numeric prefixes always mark a data stream; letter
+ * prefixes need the JSON, so plain text like "a: yes" stays text.
+ */
+function parseDataStreamPart(
+  line: string
+): { prefix: string; payload?: unknown; raw: string } | null {
+  const match = /^(\d+|[a-k]):/.exec(line);
+  if (!match) return null;
+  const prefix = match[1];
+  const raw = line.slice(match[0].length);
+  try {
+    return { prefix, payload: JSON.parse(raw), raw };
+  } catch {
+    return /^\d/.test(prefix) ? { prefix, raw } : null;
+  }
+}
+
+/**
+ * Reassembles tool calls that arrive in pieces across stream frames.
+ * Calls are keyed by tool call id (or choice index for OpenAI fragments) and
+ * returned in the order they started.
+ */
+class ToolCallAssembler {
+  private calls = new Map<
+    string,
+    { name: string; argsText: string; args?: Record<string, unknown>; result?: unknown }
+  >();
+
+  /** AI SDK data stream tool frames: 9 (complete call), b (call start), c (args delta), a (result) */
+  pushDataStreamPart(prefix: string, payload: unknown): void {
+    if (!isRecord(payload)) return;
+    const id = String(payload.toolCallId ?? "");
+    if (!id) return;
+
+    if (prefix === "9") {
+      const call = this.get(id, payload.toolName);
+      if (isRecord(payload.args)) call.args = payload.args;
+    } else if (prefix === "b") {
+      this.get(id, payload.toolName);
+    } else if (prefix === "c") {
+      if (typeof payload.argsTextDelta === "string") this.get(id).argsText += payload.argsTextDelta;
+    } else if (prefix === "a") {
+      this.get(id).result = payload.result;
+    }
+  }
+
+  /** SSE tool parts. Returns true when the payload was a tool frame. */
+  pushSsePart(obj: unknown): boolean {
+    if (!isRecord(obj)) return false;
+
+    // AI SDK UI message stream parts
+    if (typeof obj.type === "string" && /^tool-(input|output)-/.test(obj.type)) {
+      const id = String(obj.toolCallId ?? "");
+      if (!id) return true;
+
+      switch (obj.type) {
+        case "tool-input-start":
+          this.get(id, obj.toolName);
+          break;
+        case "tool-input-delta":
+          if (typeof obj.inputTextDelta === "string") this.get(id).argsText += obj.inputTextDelta;
+          break;
+        case "tool-input-available": {
+          const call = this.get(id, obj.toolName);
+          if (isRecord(obj.input)) call.args = obj.input;
+          break;
+        }
+        case "tool-input-error": {
+          const call = this.get(id, obj.toolName);
+          if (isRecord(obj.input)) call.args = obj.input;
+          call.result = { error: obj.errorText };
+          break;
+        }
+        case "tool-output-available":
+          this.get(id).result = obj.output;
+          break;
+        case "tool-output-error":
+          this.get(id).result = { error: obj.errorText };
+          break;
+      }
+      return true;
+    }
+
+    // OpenAI streaming fragments: choices[0].delta.tool_calls[{ index, id, function: { name, arguments } }]
+    if (Array.isArray(obj.choices) && obj.choices.length > 0) {
+      const choice = obj.choices[0];
+      const delta = isRecord(choice) ? choice.delta : undefined;
+      if (!isRecord(delta) || !Array.isArray(delta.tool_calls)) return false;
+
+      for (const fragment of delta.tool_calls) {
+        if (!isRecord(fragment)) continue;
+        const fn = isRecord(fragment.function) ? fragment.function : {};
+        const call = this.get(`openai:${fragment.index ?? 0}`, fn.name);
+        if (typeof fn.arguments === "string") call.argsText += fn.arguments;
+      }
+
+      // A chunk can carry text alongside tool fragments; let the text path handle it
+      return typeof delta.content !== "string";
+    }
+
+    return false;
+  }
+
+  finish(): ToolCall[] {
+    return [...this.calls.values()].map((call) => ({
+      name: call.name,
+      arguments: call.args ?? parseArgs(call.argsText),
+      ...(call.result !== undefined ? { result: call.result } : {}),
+    }));
+  }
+
+  private get(id: string, name?: unknown) {
+    let call = this.calls.get(id);
+    if (!call) {
+      call = { name: "unknown", argsText: "" };
+      this.calls.set(id, call);
+    }
+    if (typeof name === "string" && name) call.name = name;
+    return call;
+  }
+}
+
+function parseArgs(text: string): Record<string, unknown> {
+  if (!text.trim()) return {};
+  try {
+    const parsed = JSON.parse(text);
+    return isRecord(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function extractTextChunk(obj: unknown): string | null {
+  if (typeof obj === "string") return obj;
+  if (!isRecord(obj)) return null;
+
+  // Vercel AI SDK UI message stream variants:
+  // {"type":"text-delta","textDelta":"..."} or {"type":"text-delta","delta":"..."}
+  if (obj.type === "text-delta") {
+    if (typeof obj.textDelta === "string") return obj.textDelta;
+    if (typeof obj.delta === "string") return obj.delta;
+    if (typeof obj.text === "string") return obj.text;
+  }
+
+  // OpenAI streaming format: {"choices":[{"delta":{"content":"..."}}]}
+  if (Array.isArray(obj.choices) && obj.choices.length > 0) {
+    const choice = obj.choices[0];
+    if (isRecord(choice) && isRecord(choice.delta) && typeof choice.delta.content === "string") {
+      return choice.delta.content;
+    }
+  }
+
+  // Generic common fields
+  for (const key of ["textDelta", "delta", "text", "content"]) {
+    const value = obj[key];
+    if (typeof value === "string") return value;
+  }
+
+  // Anthropic-style content array: [{ type: "text", text: "..." }]
+  if (Array.isArray(obj.content)) {
+    let text = "";
+    for (const part of obj.content) {
+      if (typeof part === "string") {
+        text += part;
+        continue;
+      }
+      if (!isRecord(part)) continue;
+      if (typeof part.text === "string") text += part.text;
+      else if (typeof part.content === "string") text += part.content;
+      else if (typeof part.delta === "string") text += part.delta;
+    }
+    if (text) return text;
+  }
+
+  return null;
+}
+
+function extractStreamError(obj: unknown): string | null {
+  if (!isRecord(obj)) return null;
+
+  if (obj.type === "error") {
+    if (typeof obj.errorText === "string") return obj.errorText;
+    if (typeof obj.message === "string") return obj.message;
+  }
+
+  if (typeof obj.error === "string") return obj.error;
+  if (typeof obj.errorText === "string") return obj.errorText;
+
+  if (isRecord(obj.error) && typeof obj.error.message === "string") return obj.error.message;
+
+  return null;
+}
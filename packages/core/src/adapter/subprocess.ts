@@ -0,0 +1,251 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import { createInterface } from "node:readline";
+import {
+  AgentAdapter,
+  AgentConfig,
+  AgentResponse,
+  ConversationContext,
+  ToolCall,
+  TokenUsage,
+} from "./interface.js";
+import { toTokenUsage, toToolCall } from "./agent-message.js";
+import { isRecord } from "../util.js";
+
+type SubprocessConfig = Extract<AgentConfig, { type: "subprocess" }>;
+
+type AgentMessage = Record<string, unknown>;
+
+const DEFAULT_SESSION = "default";
+const STDERR_TAIL_CHARS = 2000;
+const KILL_GRACE_MS = 2000;
+
+/**
+ * Runs the agent as a local process and talks to it over newline-delimited JSON.
+ *
+ * Each user turn is written to stdin as one line:
+ *   {"type":"message","message":"...","conversationId":"..."}
+ *
+ * The agent answers with one JSON object per line on stdout:
+ *   {"type":"text","text":"..."}                              — appended to the response text
+ *   {"type":"tool_call","name":"...","arguments":{},"result":...}
+ *   {"type":"usage","input":12,"output":34}
+ *   {"type":"error","message":"..."}                          — fails the turn
+ *   {"type":"done"}                                           — ends the turn
+ *   {"type":"response","text":"...","toolCalls":[],"tokenUsage":{}} — whole turn in one line
+ *
+ * Non-JSON stdout lines are ignored so agents can keep their usual logging.
+ * One process is spawned per conversation and stopped by endConversation();
+ * reset() and disconnect() stop them all. A process that exits between turns
+ * fails the conversation's next turn rather than being respawned without its state.
+ */
+export class SubprocessAdapter implements AgentAdapter {
+  private config!: SubprocessConfig;
+  private sessions = new Map<string, AgentProcess>();
+
+  async connect(config: AgentConfig): Promise<void> {
+    if (config.type !== "subprocess") {
+      throw new Error(`SubprocessAdapter requires config type "subprocess", got "${config.type}"`);
+    }
+    this.config = config;
+  }
+
+  async send(message: string, context?: ConversationContext): Promise<AgentResponse> {
+    const conversationId = context?.conversationId ?? DEFAULT_SESSION;
+    const proc = this.getProcess(conversationId);
+
+    const start = performance.now();
+    proc.write({ type: "message", message, conversationId });
+
+    let text = "";
+    const toolCalls: ToolCall[] = [];
+    let tokenUsage: TokenUsage | undefined;
+
+    while (true) {
+      const msg = await proc.next();
+
+      switch (msg.type) {
+        case "text":
+          if (typeof msg.text === "string") text += msg.text;
+          break;
+        case "tool_call":
+          toolCalls.push(toToolCall(msg));
+          break;
+        case "usage":
+          tokenUsage = toTokenUsage(msg);
+          break;
+        case "error":
+          throw new Error(`Agent process error: ${String(msg.message ?? msg.error ?? "unknown error")}`);
+        case "response":
+          if (typeof msg.text === "string") text += msg.text;
+          if (Array.isArray(msg.toolCalls)) {
+            for (const tc of msg.toolCalls) toolCalls.push(toToolCall(tc as AgentMessage));
+          }
+          if (isRecord(msg.tokenUsage)) tokenUsage = toTokenUsage(msg.tokenUsage);
+          return buildResponse(text, toolCalls, tokenUsage, performance.now() - start);
+        case "done":
+          return buildResponse(text, toolCalls, tokenUsage, performance.now() - start);
+        default:
+          // Unknown message types are skipped for forward compatibility
+          break;
+      }
+    }
+  }
+
+  async reset(): Promise<void> {
+    await this.stopAll();
+  }
+
+  async endConversation(conversationId: string): Promise<void> {
+    const proc = this.sessions.get(conversationId);
+    this.sessions.delete(conversationId);
+    await proc?.stop();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.stopAll();
+  }
+
+  private getProcess(conversationId: string): AgentProcess {
+    // An exited process is kept, so its conversation's turns report the exit
+    const existing = this.sessions.get(conversationId);
+    if (existing) return existing;
+
+    const proc = new AgentProcess(this.config);
+    this.sessions.set(conversationId, proc);
+    return proc;
+  }
+
+  private async stopAll(): Promise<void> {
+    const procs = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(procs.map((p) => p.stop()));
+  }
+}
+
+class AgentProcess {
+  closed = false;
+
+  private child: ChildProcessWithoutNullStreams;
+  private command: string;
+  private queue: AgentMessage[] = [];
+  private waiter: { resolve: (msg: AgentMessage) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+  private stderr = "";
+  private stopping = false;
+  private closedPromise: Promise<void>;
+
+  constructor(config: SubprocessConfig) {
+    this.command = [config.command, ...(config.args ?? [])].join(" ");
+    this.child = spawn(config.command, config.args ?? [], {
+      cwd: config.cwd,
+      env: { ...process.env, ...config.env },
+      stdio: "pipe",
+    });
+
+    createInterface({ input: this.child.stdout }).on("line", (line) => this.onLine(line));
+
+    this.child.stderr.setEncoding("utf-8");
+    this.child.stderr.on("data", (chunk: string) => {
+      this.stderr = (this.stderr + chunk).slice(-STDERR_TAIL_CHARS);
+    });
+
+    // Broken pipes are reported through the close handler with the exit code
+    this.child.stdin.on("error", () => {});
+
+    this.child.on("error", (err) => {
+      this.fail(new Error(`Failed to start agent process "${this.command}": ${err.message}`));
+    });
+
+    this.closedPromise = new Promise((resolve) => {
+      this.child.on("close", (code, signal) => {
+        this.closed = true;
+        if (!this.stopping) {
+          const reason =
+            code !== null && code !== 0 ? `exited with code ${code}` : signal ? `was killed by ${signal}` : "exited";
+          const when = this.waiter ? " before completing its response" : " between turns; its conversation state is lost";
+          this.fail(new Error(`Agent process "${this.command}" ${reason}${when}${this.stderrSuffix()}`));
+        }
+        resolve();
+      });
+    });
+  }
+
+  write(msg: AgentMessage): void {
+    if (this.failure) throw this.failure;
+    this.child.stdin.write(JSON.stringify(msg) + "\n");
+  }
+
+  next(): Promise<AgentMessage> {
+    const queued = this.queue.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (this.closed) return;
+    // A turn still waiting on this process would otherwise never settle
+    this.fail(new Error(`Agent process "${this.command}" was stopped`));
+    this.stopping = true;
+    this.child.stdin.end();
+    this.child.kill("SIGTERM");
+
+    const timer = setTimeout(() => this.child.kill("SIGKILL"), KILL_GRACE_MS);
+    await this.closedPromise;
+    clearTimeout(timer);
+  }
+
+  private onLine(line: string): void {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return;
+    }
+    if (!isRecord(parsed)) return;
+
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(parsed);
+    } else {
+      this.queue.push(parsed);
+    }
+  }
+
+  private fail(err: Error): void {
+    if (this.failure) return;
+    this.failure = err;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(err);
+    }
+  }
+
+  private stderrSuffix(): string {
+    const tail = this.stderr.trim();
+    return tail ? `\nstderr:\n${tail}` : "";
+  }
+}
+
+function buildResponse(
+  text: string,
+  toolCalls: ToolCall[],
+  tokenUsage: TokenUsage | undefined,
+  latencyMs: number
+): AgentResponse {
+  return new AgentResponse({
+    text: text.trim(),
+    toolCalls,
+    latencyMs,
+    tokenUsage,
+    raw: text,
+  });
+}
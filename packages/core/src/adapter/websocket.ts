@@ -0,0 +1,287 @@
+import WebSocket from "ws";
+import {
+  AgentAdapter,
+  AgentConfig,
+  AgentResponse,
+  ConversationContext,
+  StreamMetrics,
+  ToolCall,
+  TokenUsage,
+} from "./interface.js";
+import { StreamParser } from "./stream-parser.js";
+import { toTokenUsage, toToolCall } from "./agent-message.js";
+import { isRecord } from "../util.js";
+
+type WebSocketConfig = Extract<AgentConfig, { type: "websocket" }>;
+
+const DEFAULT_SESSION = "default";
+const DEFAULT_SENTINEL = "done";
+const DEFAULT_TURN_TIMEOUT_MS = 60000;
+
+/**
+ * Talks to an agent over a WebSocket, one socket per conversation, closed by
+ * endConversation(); reset() and disconnect() close them all.
+ *
+ * Each user turn is sent as one frame (default: {"type":"message","message":"...","conversation_id":"..."}).
+ * Frames are collected until the turn ends: a sentinel frame (default: a frame that
+ * is "done" or has type "done"), `endOfTurn.idleMs` without frames, or
+ * `endOfTurn.predicate` returning true. Frames arriving between turns are discarded.
+ *
+ * Without a responseParser, frames are read like streamed HTTP chunks (text deltas,
+ * AI SDK / OpenAI tool parts, error frames) plus the subprocess protocol's
+ * {"type":"tool_call"} and {"type":"usage"} frames.
+ */
+export class WebSocketAdapter implements AgentAdapter {
+  private config!: WebSocketConfig;
+  private sockets = new Map<string, AgentSocket>();
+
+  async connect(config: AgentConfig): Promise<void> {
+    if (config.type !== "websocket") {
+      throw new Error(`WebSocketAdapter requires config type "websocket", got "${config.type}"`);
+    }
+    this.config = config;
+  }
+
+  async send(message: string, context?: ConversationContext): Promise<AgentResponse> {
+    const conversationId = context?.conversationId ?? DEFAULT_SESSION;
+    const socket = await this.getSocket(conversationId);
+
+    const { messageTemplate, responseParser, endOfTurn } = this.config;
+    const payload = messageTemplate
+      ? messageTemplate(message, context)
+      : { type: "message", message, conversation_id: conversationId };
+
+    const start = performance.now();
+    socket.discardPending();
+    socket.send(typeof payload === "string" ? payload : JSON.stringify(payload));
+
+    const sentinel = endOfTurn?.sentinel ?? DEFAULT_SENTINEL;
+    const idleMs = endOfTurn?.idleMs;
+    const deadline = start + (endOfTurn?.timeoutMs ?? DEFAULT_TURN_TIMEOUT_MS);
+
+    const frames: unknown[] = [];
+    const frameTimes: number[] = [];
+    const reader = responseParser ? null : new FrameReader();
+
+    while (true) {
+      const remaining = deadline - performance.now();
+      // The idle timer only starts once the agent has begun answering
+      const wait = idleMs !== undefined && frames.length > 0 ? Math.min(idleMs, remaining) : remaining;
+      const next = await socket.next(Math.max(wait, 0));
+
+      if (!next) {
+        if (idleMs !== undefined && frames.length > 0 && performance.now() < deadline) break;
+        throw new Error(
+          `WebSocket agent did not finish its turn within ${endOfTurn?.timeoutMs ?? DEFAULT_TURN_TIMEOUT_MS}ms (${frames.length} frame(s) received)`
+        );
+      }
+
+      if (isSentinel(next.frame, sentinel)) break;
+
+      frames.push(next.frame);
+      frameTimes.push(next.at - start);
+      reader?.push(next.frame, next.raw);
+
+      if (endOfTurn?.predicate?.(next.frame, frames)) break;
+    }
+
+    const metrics: StreamMetrics = {
+      timeToFirstTokenMs: frameTimes[0],
+      interTokenGapsMs: frameTimes.slice(1).map((t, i) => t - frameTimes[i]),
+      totalStreamMs: performance.now() - start,
+      chunkCount: frameTimes.length,
+    };
+
+    const parsed = responseParser ? responseParser(frames) : reader!.result();
+    const result = typeof parsed === "string" ? { text: parsed } : parsed;
+
+    return new AgentResponse({
+      text: result.text,
+      toolCalls: result.toolCalls ?? [],
+      latencyMs: metrics.totalStreamMs,
+      tokenUsage: result.tokenUsage,
+      streamMetrics: metrics,
+      raw: frames,
+    });
+  }
+
+  async reset(): Promise<void> {
+    this.closeAll();
+  }
+
+  async disconnect(): Promise<void> {
+    this.closeAll();
+  }
+
+  async endConversation(conversationId: string): Promise<void> {
+    this.sockets.get(conversationId)?.close();
+    this.sockets.delete(conversationId);
+  }
+
+  private async getSocket(conversationId: string): Promise<AgentSocket> {
+    const existing = this.sockets.get(conversationId);
+    if (existing && !existing.closed) return existing;
+
+    const socket = new AgentSocket(this.config.url, this.config.headers);
+    this.sockets.set(conversationId, socket);
+    await socket.opened;
+    return socket;
+  }
+
+  private closeAll(): void {
+    for (const socket of this.sockets.values()) socket.close();
+    this.sockets.clear();
+  }
+}
+
+interface ReceivedFrame {
+  /** Parsed JSON when the text frame is valid JSON, otherwise the raw string */
+  frame: unknown;
+  raw: string;
+  at: number;
+}
+
+class AgentSocket {
+  closed = false;
+  opened: Promise<void>;
+
+  private ws: WebSocket;
+  private url: string;
+  private queue: ReceivedFrame[] = [];
+  private waiter: { resolve: (frame: ReceivedFrame | null) => void; reject: (err: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(url: string, headers?: Record<string, string>) {
+    this.url = url;
+    this.ws = new WebSocket(url, headers ? { headers } : undefined);
+
+    this.opened = new Promise((resolve, reject) => {
+      this.ws.once("open", () => resolve());
+      this.ws.once("error", (err) =>
+        reject(new Error(`Failed to connect to WebSocket agent at ${url}: ${err.message}`))
+      );
+    });
+    // Connection failures are reported through `opened`; avoid an unhandled rejection when nobody awaits it
+    this.opened.catch(() => {});
+    // Without a listener, ws rethrows socket errors; the close event that follows reports them
+    this.ws.on("error", () => {});
+
+    this.ws.on("message", (data, isBinary) => {
+      // Binary frames carry nothing the text parsers can use
+      if (isBinary) return;
+      const raw = data.toString();
+      this.onFrame({ frame: parseFrame(raw), raw, at: performance.now() });
+    });
+
+    this.ws.on("close", (code, reason) => {
+      this.closed = true;
+      const detail = reason.length > 0 ? `: ${reason.toString()}` : "";
+      this.fail(new Error(`WebSocket agent at ${this.url} closed the connection (code ${code})${detail}`));
+    });
+  }
+
+  send(data: string): void {
+    if (this.failure) throw this.failure;
+    this.ws.send(data);
+  }
+
+  /** Next frame, or null when none arrives within `timeoutMs` */
+  next(timeoutMs: number): Promise<ReceivedFrame | null> {
+    const queued = this.queue.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiter = null;
+        resolve(null);
+      }, timeoutMs);
+      this.waiter = {
+        resolve: (frame) => {
+          clearTimeout(timer);
+          resolve(frame);
+        },
+        reject: (err) => {
+          clearTimeout(timer);
+          reject(err);
+        },
+      };
+    });
+  }
+
+  discardPending(): void {
+    this.queue = [];
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    // Rejects a turn in flight now, rather than at its end-of-turn timeout
+    this.fail(new Error("WebSocket connection closed by the adapter"));
+    this.ws.close();
+  }
+
+  private onFrame(frame: ReceivedFrame): void {
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(frame);
+    } else {
+      this.queue.push(frame);
+    }
+  }
+
+  private fail(err: Error): void {
+    if (this.failure) return;
+    this.failure = err;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(err);
+    }
+  }
+}
+
+/** Default frame interpretation, shared with streamed HTTP responses via StreamParser */
+class FrameReader {
+  private parser = new StreamParser();
+  private toolCalls: ToolCall[] = [];
+  private tokenUsage: TokenUsage | undefined;
+
+  push(frame: unknown, raw: string): void {
+    if (isRecord(frame)) {
+      if (frame.type === "tool_call") {
+        this.toolCalls.push(toToolCall(frame));
+        return;
+      }
+      if (frame.type === "usage") {
+        this.tokenUsage = toTokenUsage(frame);
+        return;
+      }
+      // Final frames often carry usage alongside their text
+      if (isRecord(frame.usage)) this.tokenUsage = toTokenUsage(frame.usage);
+    }
+    this.parser.pushMessage(raw);
+  }
+
+  result(): { text: string; toolCalls: ToolCall[]; tokenUsage?: TokenUsage } {
+    return {
+      text: this.parser.text(),
+      toolCalls: [...this.toolCalls, ...this.parser.toolCalls()],
+      tokenUsage: this.tokenUsage,
+    };
+  }
+}
+
+function parseFrame(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function isSentinel(frame: unknown, sentinel: string): boolean {
+  if (typeof frame === "string") return frame.trim() === sentinel;
+  return isRecord(frame) && frame.type === sentinel;
+}
@@ -1,56 +1,116 @@
 import type { AgentResponse } from "../adapter/interface.js";
 import type { LLMProvider } from "../llm/provider.js";
 import type { AgentProfile } from "../discovery/agent-profile.js";
+import type { TurnRecord } from "../scenario/types.js";
 import type { ZodType } from "zod";
 import { AssertionCollector } from "./collector.js";
 import { createLocalAssertions } from "./local.js";
-import { createLlmAssertions } from "./llm-judge.js";
+import { createLlmAssertions, type Judge } from "./llm-judge.js";
+import { createConversationAssertions } from "./conversation.js";
+import type { ToolMatcher } from "./tool-matchers.js";
+import type { AssertOptions } from "./types.js";
+import type { JudgeCache } from "../store/judge-cache.js";
+import type { ModelPrice } from "../llm/usage.js";
+
+/** Assertions over every turn of the scenario so far, rather than a single response */
+export interface ConversationAssert {
+  neverContains(text: string | RegExp, opts?: { role?: "agent" | "persona" | "any" } & AssertOptions): void;
+  toolCallSequence(names: string[], opts?: { strict?: boolean } & AssertOptions): void;
+  /** Bounds on the number of user (persona) messages, i.e. turns to resolution */
+  turnCount(opts: { min?: number; max?: number } & AssertOptions): void;
+  /** Tokens the agent reported across every response */
+  totalTokens(opts: { max: number } & AssertOptions): void;
+  /** Estimated USD across every response; needs the agent model's price */
+  cost(opts: { max: number } & AssertOptions): void;
+  /** Bounds on tool calls across every response */
+  toolCallCount(opts: { min?: number; max?: number } & AssertOptions): void;
+  llmJudge(opts: { criteria: string; threshold: number; scale?: number } & AssertOptions): Promise<void>;
+  consistency(opts?: { focus?: string } & AssertOptions): Promise<void>;
+}
 
 export interface FabrikAssert {
   // Local assertions (instant, no LLM)
-  contains(response: AgentResponse, text: string): void;
-  notContains(response: AgentResponse, text: string): void;
-  matches(response: AgentResponse, pattern: RegExp): void;
-  jsonSchema(response: AgentResponse, schema: ZodType): void;
-  latency(response: AgentResponse, opts: { max: number }): void;
-  tokenUsage(response: AgentResponse, opts: { max: number }): void;
-  toolCalled(response: AgentResponse, toolName: string): void;
-  toolNotCalled(response: AgentResponse, toolName: string): void;
+  contains(response: AgentResponse, text: string, options?: AssertOptions): void;
+  notContains(response: AgentResponse, text: string, options?: AssertOptions): void;
+  matches(response: AgentResponse, pattern: RegExp, options?: AssertOptions): void;
+  jsonSchema(response: AgentResponse, schema: ZodType, options?: AssertOptions): void;
+  latency(response: AgentResponse, opts: { max: number } & AssertOptions): void;
+  timeToFirstToken(response: AgentResponse, opts: { max: number } & AssertOptions): void;
+  tokenUsage(response: AgentResponse, opts: { max: number } & AssertOptions): void;
+  toolCalled(response: AgentResponse, toolName: string, options?: AssertOptions): void;
+  toolNotCalled(response: AgentResponse, toolName: string, options?: AssertOptions): void;
+  /** Passes when any call to the tool has arguments matching a partial object, zod schema or predicate */
+  toolCalledWith(
+    response: AgentResponse,
+    toolName: string,
+    matcher: ToolMatcher<Record<string, unknown>>,
+    options?: AssertOptions
+  ): void;
+  toolCallOrder(response: AgentResponse, toolNames: string[], opts?: { strict?: boolean } & AssertOptions): void;
+  toolCallCount(
+    response: AgentResponse,
+    toolName: string,
+    expected: number | { min?: number; max?: number },
+    options?: AssertOptions
+  ): void;
+  toolResult(
+    response: AgentResponse,
+    toolName: string,
+    matcher: ToolMatcher | string | number | boolean | null,
+    options?: AssertOptions
+  ): void;
 
   // LLM assertions (calls configured LLM provider)
-  sentiment(response: AgentResponse, expected: string): Promise<void>;
+  sentiment(response: AgentResponse, expected: string, options?: AssertOptions): Promise<void>;
   llmJudge(
     response: AgentResponse,
-    opts: { criteria: string; threshold: number; scale?: number }
+    opts: { criteria: string; threshold: number; scale?: number } & AssertOptions
   ): Promise<void>;
   guardrail(
     response: AgentResponse,
-    opts: { mustNot?: string[]; must?: string[] }
+    opts: { mustNot?: string[]; must?: string[] } & AssertOptions
   ): Promise<void>;
   factuality(
     response: AgentResponse,
-    opts: { groundTruth: string; context?: string }
+    opts: { groundTruth: string; context?: string } & AssertOptions
   ): Promise<void>;
 
   // Custom
   custom(
     name: string,
     fn: (response: AgentResponse) => boolean | Promise<boolean>,
-    response: AgentResponse
+    response: AgentResponse,
+    options?: AssertOptions
   ): Promise<void>;
+
+  // Whole-transcript assertions
+  conversation: ConversationAssert;
 }
 
 export function createAssertProxy(
   collector: AssertionCollector,
   llmProvider?: LLMProvider,
-  agentProfile?: AgentProfile
+  agentProfile?: AgentProfile,
+  turns: TurnRecord[] = [],
+  judges?: Judge[],
+  judgeCache?: JudgeCache,
+  agentPrice?: ModelPrice
 ): FabrikAssert {
   const local = createLocalAssertions(collector);
-  const llm = createLlmAssertions(collector, llmProvider, agentProfile);
+  const llm = createLlmAssertions(collector, llmProvider, agentProfile, judges, judgeCache);
 
   return {
     ...local,
     ...llm,
+    conversation: createConversationAssertions(
+      collector,
+      turns,
+      llmProvider,
+      agentProfile,
+      judges,
+      judgeCache,
+      agentPrice
+    ),
   };
 }
 
@@ -58,12 +118,28 @@ export function createAssertProxy(
 let _globalCollector: AssertionCollector | null = null;
 let _globalLlmProvider: LLMProvider | undefined;
 let _globalAgentProfile: AgentProfile | undefined;
+let _globalTurns: TurnRecord[] = [];
+let _globalJudges: Judge[] | undefined;
+let _globalJudgeCache: JudgeCache | undefined;
+let _globalAgentPrice: ModelPrice | undefined;
 let _pendingPromises: Promise<void>[] = [];
 
-export function _bindGlobalAssert(collector: AssertionCollector, llmProvider?: LLMProvider, agentProfile?: AgentProfile): void {
+export function _bindGlobalAssert(
+  collector: AssertionCollector,
+  llmProvider?: LLMProvider,
+  agentProfile?: AgentProfile,
+  turns: TurnRecord[] = [],
+  judges?: Judge[],
+  judgeCache?: JudgeCache,
+  agentPrice?: ModelPrice
+): void {
   _globalCollector = collector;
   _globalLlmProvider = llmProvider;
   _globalAgentProfile = agentProfile;
+  _globalTurns = turns;
+  _globalJudges = judges;
+  _globalJudgeCache = judgeCache;
+  _globalAgentPrice = agentPrice;
   _pendingPromises = [];
 }
 
@@ -71,6 +147,10 @@ export function _unbindGlobalAssert(): void {
   _globalCollector = null;
   _globalLlmProvider = undefined;
   _globalAgentProfile = undefined;
+  _globalTurns = [];
+  _globalJudges = undefined;
+  _globalJudgeCache = undefined;
+  _globalAgentPrice = undefined;
   _pendingPromises = [];
 }
 
@@ -89,7 +169,15 @@ function getProxy(): FabrikAssert {
   if (!_globalCollector) {
     throw new Error("assert.* can only be used inside a scenario() function");
   }
-  return createAssertProxy(_globalCollector, _globalLlmProvider, _globalAgentProfile);
+  return createAssertProxy(
+    _globalCollector,
+    _globalLlmProvider,
+    _globalAgentProfile,
+    _globalTurns,
+    _globalJudges,
+    _globalJudgeCache,
+    _globalAgentPrice
+  );
 }
 
 export const assert: FabrikAssert = {
@@ -99,9 +187,14 @@ export const assert: FabrikAssert = {
   matches: (...args) => getProxy().matches(...args),
   jsonSchema: (...args) => getProxy().jsonSchema(...args),
   latency: (...args) => getProxy().latency(...args),
+  timeToFirstToken: (...args) => getProxy().timeToFirstToken(...args),
   tokenUsage: (...args) => getProxy().tokenUsage(...args),
   toolCalled: (...args) => getProxy().toolCalled(...args),
   toolNotCalled: (...args) => getProxy().toolNotCalled(...args),
+  toolCalledWith: (...args) => getProxy().toolCalledWith(...args),
+  toolCallOrder: (...args) => getProxy().toolCallOrder(...args),
+  toolCallCount: (...args) => getProxy().toolCallCount(...args),
+  toolResult: (...args) => getProxy().toolResult(...args),
 
   // Async assertions — track promises so runner can drain them
   sentiment: (...args) => trackAsync(getProxy().sentiment(...args)),
@@ -109,4 +202,15 @@ export const assert: FabrikAssert = {
   guardrail: (...args) => trackAsync(getProxy().guardrail(...args)),
   factuality: (...args) => trackAsync(getProxy().factuality(...args)),
   custom: (...args) => trackAsync(getProxy().custom(...args)),
+
+  conversation: {
+    neverContains: (...args) => getProxy().conversation.neverContains(...args),
+    toolCallSequence: (...args) => getProxy().conversation.toolCallSequence(...args),
+    turnCount: (...args) => getProxy().conversation.turnCount(...args),
+    totalTokens: (...args) => getProxy().conversation.totalTokens(...args),
+    cost: (...args) => getProxy().conversation.cost(...args),
+    toolCallCount: (...args) => getProxy().conversation.toolCallCount(...args),
+    llmJudge: (...args) => trackAsync(getProxy().conversation.llmJudge(...args)),
+    consistency: (...args) => trackAsync(getProxy().conversation.consistency(...args)),
+  },
 };
@@ -0,0 +1,295 @@
+import { AgentResponse, type ToolCall } from "../adapter/interface.js";
+import type { AgentProfile } from "../discovery/agent-profile.js";
+import type { JudgeVote } from "./types.js";
+import {
+  buildSentimentJudge,
+  buildLlmJudge,
+  buildGuardrailJudge,
+  buildFactualityJudge,
+  castVotes,
+  tallyVotes,
+  type Judge,
+  type JudgeCall,
+} from "./llm-judge.js";
+import { isRecord } from "../util.js";
+
+export type CalibrationType = "sentiment" | "llmJudge" | "guardrail" | "factuality";
+
+const CALIBRATION_TYPES: CalibrationType[] = ["sentiment", "llmJudge", "guardrail", "factuality"];
+
+/** One human-labeled example: the input of an LLM assertion and the verdict a person gave it */
+export interface CalibrationExample {
+  id?: string;
+  type: CalibrationType;
+  response: string | { text: string; toolCalls?: ToolCall[] };
+  /** llmJudge: the criteria; sentiment: the expected sentiment */
+  criteria?: string;
+  /** llmJudge only */
+  threshold?: number;
+  scale?: number;
+  /** guardrail only */
+  must?: string[];
+  mustNot?: string[];
+  /** factuality only */
+  groundTruth?: string;
+  context?: string;
+  /** The human verdict */
+  verdict: "pass" | "fail";
+  /** The human score on the judge's scale, used for score bias */
+  score?: number;
+}
+
+/** "pass" is the positive class */
+export interface ConfusionMatrix {
+  tp: number;
+  fp: number;
+  fn: number;
+  tn: number;
+}
+
+export interface CalibrationMetrics {
+  /** Judge name, or "panel" for the majority vote */
+  judge: string;
+  type: CalibrationType | "all";
+  /** Examples with a verdict; errors are not counted */
+  count: number;
+  errors: number;
+  accuracy: number;
+  /** Cohen's kappa between judge and human verdicts: 1 is perfect agreement, 0 is chance */
+  kappa: number;
+  confusion: ConfusionMatrix;
+  /** Mean judge score minus human score, where both exist. Positive means the judge is more lenient. */
+  scoreBias?: number;
+  /** Panel rows: examples on which the judges did not all agree */
+  disagreements?: number;
+}
+
+export interface CalibrationOutcome {
+  index: number;
+  id?: string;
+  type: CalibrationType;
+  human: boolean;
+  votes: JudgeVote[];
+  /** Set when more than one judge voted */
+  panel?: { passed?: boolean; score?: number; agreement?: number; disagreement: boolean; error?: string };
+}
+
+export interface CalibrationReport {
+  judges: string[];
+  /** Per judge (and panel) rows, for each assertion type and for "all" */
+  metrics: CalibrationMetrics[];
+  outcomes: CalibrationOutcome[];
+}
+
+export interface CalibrateOptions {
+  agentProfile?: AgentProfile;
+  /** Examples judged at once. Default 4. */
+  parallelism?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export function validateCalibrationDataset(obj: unknown): CalibrationExample[] {
+  if (!Array.isArray(obj)) {
+    throw new Error("Calibration dataset must be an array of examples");
+  }
+  const errors: string[] = [];
+
+  obj.forEach((item: unknown, i) => {
+    const where = `[${i}]`;
+    if (!isRecord(item)) {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    if (!CALIBRATION_TYPES.includes(item.type as CalibrationType)) {
+      errors.push(`${where}.type must be one of: ${CALIBRATION_TYPES.join(", ")}`);
+    }
+    const response = item.response;
+    if (typeof response !== "string" && !(isRecord(response) && typeof response.text === "string")) {
+      errors.push(`${where}.response must be a string or { text, toolCalls? }`);
+    }
+    if (item.verdict !== "pass" && item.verdict !== "fail") {
+      errors.push(`${where}.verdict must be "pass" or "fail"`);
+    }
+    if (item.score !== undefined && typeof item.score !== "number") {
+      errors.push(`${where}.score must be a number`);
+    }
+
+    if ((item.type === "sentiment" || item.type === "llmJudge") && typeof item.criteria !== "string") {
+      errors.push(`${where}.criteria is required for ${item.type}`);
+    }
+    if (item.type === "llmJudge" && typeof item.threshold !== "number") {
+      errors.push(`${where}.threshold is required for llmJudge`);
+    }
+    if (item.type === "guardrail" && !Array.isArray(item.must) && !Array.isArray(item.mustNot)) {
+      errors.push(`${where} needs must or mustNot for guardrail`);
+    }
+    if (item.type === "factuality" && typeof item.groundTruth !== "string") {
+      errors.push(`${where}.groundTruth is required for factuality`);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid calibration dataset:\n  ${errors.join("\n  ")}`);
+  }
+  return obj as CalibrationExample[];
+}
+
+/** The same judge call the assertion would make for this example */
+export function buildCalibrationJudge(example: CalibrationExample, agentProfile?: AgentProfile): JudgeCall {
+  const response =
+    typeof example.response === "string"
+      ? new AgentResponse({ text: example.response, latencyMs: 0 })
+      : new AgentResponse({ text: example.response.text, toolCalls: example.response.toolCalls, latencyMs: 0 });
+
+  switch (example.type) {
+    case "sentiment":
+      return buildSentimentJudge(response, example.criteria!, agentProfile);
+    case "llmJudge":
+      return buildLlmJudge(
+        response,
+        { criteria: example.criteria!, threshold: example.threshold!, scale: example.scale },
+        agentProfile
+      );
+    case "guardrail":
+      return buildGuardrailJudge(response, { must: example.must, mustNot: example.mustNot }, agentProfile);
+    case "factuality":
+      return buildFactualityJudge(
+        response,
+        { groundTruth: example.groundTruth!, context: example.context },
+        agentProfile
+      );
+  }
+}
+
+/**
+ * Run every example through every judge and compare the verdicts with the
+ * human labels. With more than one judge the panel's majority vote is scored
+ * too, as the judge "panel".
+ */
+export async function calibrateJudges(
+  dataset: CalibrationExample[],
+  judges: Judge[],
+  options?: CalibrateOptions
+): Promise<CalibrationReport> {
+  if (judges.length === 0) {
+    throw new Error("Calibration needs at least one judge");
+  }
+  const parallelism = Math.max(1, options?.parallelism ?? 4);
+  const outcomes: CalibrationOutcome[] = [];
+
+  for (let i = 0; i < dataset.length; i += parallelism) {
+    const batch = dataset.slice(i, i + parallelism);
+    const batchOutcomes = await Promise.all(
+      batch.map(async (example, j): Promise<CalibrationOutcome> => {
+        const votes = await castVotes(buildCalibrationJudge(example, options?.agentProfile), judges);
+        return {
+          index: i + j,
+          ...(example.id !== undefined ? { id: example.id } : {}),
+          type: example.type,
+          human: example.verdict === "pass",
+          votes,
+          ...(judges.length > 1 ? { panel: panelOf(votes) } : {}),
+        };
+      })
+    );
+    outcomes.push(...batchOutcomes);
+    options?.onProgress?.(outcomes.length, dataset.length);
+  }
+
+  const names = judges.map((j) => j.name);
+  const rowJudges = judges.length > 1 ? [...names, "panel"] : names;
+  const types = CALIBRATION_TYPES.filter((t) => dataset.some((e) => e.type === t));
+  const metrics: CalibrationMetrics[] = [];
+
+  for (const judge of rowJudges) {
+    for (const type of [...types, "all" as const]) {
+      const indexes = outcomes.filter((o) => type === "all" || o.type === type).map((o) => o.index);
+      metrics.push(scoreJudge(judge, type, indexes, outcomes, dataset));
+    }
+  }
+
+  return { judges: names, metrics, outcomes };
+}
+
+function panelOf(votes: JudgeVote[]): NonNullable<CalibrationOutcome["panel"]> {
+  try {
+    const outcome = tallyVotes(votes);
+    return {
+      passed: outcome.passed,
+      ...(outcome.score !== undefined ? { score: outcome.score } : {}),
+      agreement: outcome.agreement,
+      disagreement: outcome.disagreement,
+    };
+  } catch (e) {
+    return { disagreement: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+function scoreJudge(
+  judge: string,
+  type: CalibrationType | "all",
+  indexes: number[],
+  outcomes: CalibrationOutcome[],
+  dataset: CalibrationExample[]
+): CalibrationMetrics {
+  const confusion: ConfusionMatrix = { tp: 0, fp: 0, fn: 0, tn: 0 };
+  const biases: number[] = [];
+  let errors = 0;
+  let disagreements = 0;
+
+  for (const index of indexes) {
+    const outcome = outcomes[index];
+    let passed: boolean | undefined;
+    let score: number | undefined;
+    if (judge === "panel") {
+      passed = outcome.panel?.passed;
+      score = outcome.panel?.score;
+      if (outcome.panel?.disagreement) disagreements++;
+    } else {
+      const vote = outcome.votes.find((v) => v.judge === judge);
+      passed = vote && vote.error === undefined ? vote.passed : undefined;
+      score = vote?.score;
+    }
+
+    if (passed === undefined) {
+      errors++;
+      continue;
+    }
+    if (passed && outcome.human) confusion.tp++;
+    else if (passed) confusion.fp++;
+    else if (outcome.human) confusion.fn++;
+    else confusion.tn++;
+
+    const humanScore = dataset[index].score;
+    if (score !== undefined && humanScore !== undefined) biases.push(score - humanScore);
+  }
+
+  return {
+    judge,
+    type,
+    count: confusion.tp + confusion.fp + confusion.fn + confusion.tn,
+    errors,
+    accuracy: accuracy(confusion),
+    kappa: cohensKappa(confusion),
+    confusion,
+    ...(biases.length > 0 ? { scoreBias: biases.reduce((sum, b) => sum + b, 0) / biases.length } : {}),
+    ...(judge === "panel" ? { disagreements } : {}),
+  };
+}
+
+function accuracy(m: ConfusionMatrix): number {
+  const n = m.tp + m.fp + m.fn + m.tn;
+  return n === 0 ? 0 : (m.tp + m.tn) / n;
+}
+
+/** Agreement beyond chance. When both raters always give the same single label, chance agreement is 1 and kappa is taken as 1. */
+export function cohensKappa(m: ConfusionMatrix): number {
+  const n = m.tp + m.fp + m.fn + m.tn;
+  if (n === 0) return 0;
+  const observed = (m.tp + m.tn) / n;
+  const judgePass = (m.tp + m.fp) / n;
+  const humanPass = (m.tp + m.fn) / n;
+  const chance = judgePass * humanPass + (1 - judgePass) * (1 - humanPass);
+  if (chance === 1) return 1;
+  return (observed - chance) / (1 - chance);
+}
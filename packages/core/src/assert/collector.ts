@@ -1,10 +1,15 @@
-import type { AssertionResult } from "./types.js";
+import type { AssertionResult, AssertOptions } from "./types.js";
 
 export class AssertionCollector {
   private results: AssertionResult[] = [];
 
-  record(result: AssertionResult): void {
-    this.results.push(result);
+  record(result: AssertionResult, options?: AssertOptions): void {
+    this.results.push({
+      ...result,
+      ...(options?.weight !== undefined ? { weight: options.weight } : {}),
+      ...(options?.severity !== undefined ? { severity: options.severity } : {}),
+      ...(options?.soft ? { soft: true } : {}),
+    });
   }
 
   getResults(): AssertionResult[] {
@@ -0,0 +1,218 @@
+import type { LLMProvider } from "../llm/provider.js";
+import type { AgentProfile } from "../discovery/agent-profile.js";
+import type { TurnRecord } from "../scenario/types.js";
+import type { AssertionCollector } from "./collector.js";
+import type { AssertOptions } from "./types.js";
+import { z } from "zod";
+import type { JudgeCache } from "../store/judge-cache.js";
+import { formatCost, type ModelPrice } from "../llm/usage.js";
+import { computeEfficiency } from "../scenario/efficiency.js";
+import {
+  buildProfileContext,
+  recordJudgement,
+  scoreJudgeSchema,
+  type Judge,
+  type JudgeCall,
+  type JudgeSetup,
+} from "./llm-judge.js";
+import { CONVERSATION_JUDGE_SYSTEM_PROMPT, CONSISTENCY_SYSTEM_PROMPT } from "./prompts.js";
+import { matchesSequence } from "./tool-matchers.js";
+
+/**
+ * Number the transcript by exchange: each persona message starts a new turn,
+ * and the agent reply (with its tool calls) shares that number.
+ */
+export function formatTranscript(turns: TurnRecord[]): string {
+  let turnNumber = 0;
+  return turns
+    .map((t) => {
+      if (t.role === "persona") {
+        turnNumber++;
+        return `[Turn ${turnNumber}] USER: ${t.message}`;
+      }
+      const tools = t.toolCalls?.length
+        ? `\n  (tools called: ${t.toolCalls.map((tc) => `${tc.name}(${JSON.stringify(tc.arguments)})`).join(", ")})`
+        : "";
+      return `[Turn ${Math.max(turnNumber, 1)}] AGENT: ${t.message}${tools}`;
+    })
+    .join("\n");
+}
+
+function userTurnCount(turns: TurnRecord[]): number {
+  return turns.filter((t) => t.role === "persona").length;
+}
+
+const ConsistencyJudgeSchema = z.object({
+  consistent: z.boolean(),
+  score: z.number().min(1).max(5),
+  inconsistencies: z.array(z.string()).optional(),
+  reasoning: z.string().optional(),
+});
+
+export function buildConversationJudge(
+  turns: TurnRecord[],
+  opts: { criteria: string; threshold: number; scale?: number },
+  agentProfile?: AgentProfile
+): JudgeCall<{ score: number; reasoning?: string }> {
+  const scale = opts.scale ?? 5;
+  return {
+    systemPrompt: CONVERSATION_JUDGE_SYSTEM_PROMPT,
+    userPrompt: `${buildProfileContext(agentProfile)}Conversation:\n${formatTranscript(turns)}\n\nCriteria: ${opts.criteria}\nScale: 1-${scale}`,
+    schema: scoreJudgeSchema(scale),
+    verdict: (result) => ({
+      passed: result.score >= opts.threshold,
+      score: result.score,
+      actual: `${result.score}/${scale}`,
+      reasoning: result.reasoning,
+    }),
+  };
+}
+
+export function buildConsistencyJudge(
+  turns: TurnRecord[],
+  focus?: string,
+  agentProfile?: AgentProfile
+): JudgeCall<z.infer<typeof ConsistencyJudgeSchema>> {
+  let prompt = `${buildProfileContext(agentProfile)}Conversation:\n${formatTranscript(turns)}`;
+  if (focus) prompt += `\n\nPay particular attention to: ${focus}`;
+  return {
+    systemPrompt: CONSISTENCY_SYSTEM_PROMPT,
+    userPrompt: prompt,
+    schema: ConsistencyJudgeSchema,
+    verdict: (result) => ({
+      passed: result.consistent,
+      score: result.score,
+      actual: result.consistent
+        ? `score ${result.score}/5`
+        : result.inconsistencies?.join("; ") || `score ${result.score}/5`,
+      reasoning: result.reasoning,
+    }),
+  };
+}
+
+/**
+ * Assertions over the whole scenario transcript. They read the turns recorded
+ * so far at the time they are called, so call them after the conversation.
+ */
+export function createConversationAssertions(
+  collector: AssertionCollector,
+  turns: TurnRecord[],
+  llmProvider?: LLMProvider,
+  agentProfile?: AgentProfile,
+  judges?: Judge[],
+  cache?: JudgeCache,
+  agentPrice?: ModelPrice
+) {
+  const judging: JudgeSetup = { llmProvider, judges, cache };
+  return {
+    neverContains(text: string | RegExp, opts?: { role?: "agent" | "persona" | "any" } & AssertOptions): void {
+      const role = opts?.role ?? "agent";
+      const test = (message: string) =>
+        typeof text === "string" ? message.toLowerCase().includes(text.toLowerCase()) : text.test(message);
+
+      let turnNumber = 0;
+      const hits: number[] = [];
+      for (const t of turns) {
+        if (t.role === "persona") turnNumber++;
+        if ((role === "any" || t.role === role) && test(t.message)) hits.push(Math.max(turnNumber, 1));
+      }
+
+      const label = typeof text === "string" ? `"${text}"` : text.toString();
+      collector.record({
+        type: "conversation.neverContains",
+        passed: hits.length === 0,
+        expected: `no ${role === "any" ? "" : `${role} `}message contains ${label}`,
+        actual: hits.length === 0 ? "(not found)" : `found in turn ${[...new Set(hits)].join(", ")}`,
+      }, opts);
+    },
+
+    toolCallSequence(names: string[], opts?: { strict?: boolean } & AssertOptions): void {
+      const called = turns.flatMap((t) => t.toolCalls?.map((tc) => tc.name) ?? []);
+      const passed = matchesSequence(called, names, opts?.strict);
+
+      collector.record({
+        type: "conversation.toolCallSequence",
+        passed,
+        expected: `${opts?.strict ? "exactly " : ""}${names.join(" → ")}`,
+        actual: called.join(" → ") || "(no tools called)",
+      }, opts);
+    },
+
+    turnCount(opts: { min?: number; max?: number } & AssertOptions): void {
+      const count = userTurnCount(turns);
+      const passed = (opts.min === undefined || count >= opts.min) && (opts.max === undefined || count <= opts.max);
+      const bounds = [opts.min !== undefined ? `>= ${opts.min}` : "", opts.max !== undefined ? `<= ${opts.max}` : ""]
+        .filter(Boolean)
+        .join(" and ");
+      collector.record({
+        type: "conversation.turnCount",
+        passed,
+        expected: `${bounds} turns`,
+        actual: `${count} turns`,
+      }, opts);
+    },
+
+    totalTokens(opts: { max: number } & AssertOptions): void {
+      const { tokens, tokenReports } = computeEfficiency(turns);
+      collector.record({
+        type: "conversation.totalTokens",
+        passed: tokenReports > 0 && tokens.total <= opts.max,
+        expected: `<= ${opts.max} tokens`,
+        actual: tokenReports > 0 ? `${tokens.total} tokens` : "(agent reported no token usage)",
+      }, opts);
+    },
+
+    cost(opts: { max: number } & AssertOptions): void {
+      const { cost, tokenReports } = computeEfficiency(turns, agentPrice);
+      collector.record({
+        type: "conversation.cost",
+        passed: cost !== undefined && cost <= opts.max,
+        expected: `<= $${opts.max}`,
+        actual:
+          cost !== undefined
+            ? formatCost(cost)
+            : tokenReports === 0
+              ? "(agent reported no token usage)"
+              : "(agent model not priced)",
+        ...(agentPrice ? {} : { error: "Set agent.model and its price in usage.prices to estimate cost" }),
+      }, opts);
+    },
+
+    toolCallCount(opts: { min?: number; max?: number } & AssertOptions): void {
+      const { toolCalls } = computeEfficiency(turns);
+      const passed =
+        (opts.min === undefined || toolCalls >= opts.min) && (opts.max === undefined || toolCalls <= opts.max);
+      const bounds = [opts.min !== undefined ? `>= ${opts.min}` : "", opts.max !== undefined ? `<= ${opts.max}` : ""]
+        .filter(Boolean)
+        .join(" and ");
+      collector.record({
+        type: "conversation.toolCallCount",
+        passed,
+        expected: `${bounds} tool calls`,
+        actual: `${toolCalls} tool calls`,
+      }, opts);
+    },
+
+    llmJudge(opts: { criteria: string; threshold: number; scale?: number } & AssertOptions): Promise<void> {
+      return recordJudgement(
+        collector,
+        "conversation.llmJudge",
+        `>= ${opts.threshold}/${opts.scale ?? 5}`,
+        () => buildConversationJudge(turns, opts, agentProfile),
+        opts,
+        judging
+      );
+    },
+
+    consistency(opts?: { focus?: string } & AssertOptions): Promise<void> {
+      return recordJudgement(
+        collector,
+        "conversation.consistency",
+        opts?.focus ?? "consistent across turns",
+        () => buildConsistencyJudge(turns, opts?.focus, agentProfile),
+        opts,
+        judging
+      );
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { tallyVotes } from "./llm-judge.js";
+import type { JudgeVote } from "./types.js";
+
+function vote(judge: string, passed: boolean, score?: number, reasoning?: string): JudgeVote {
+  return { judge, passed, ...(score !== undefined ? { score } : {}), ...(reasoning ? { reasoning } : {}) };
+}
+
+describe("tallyVotes", () => {
+  it("passes on a majority and takes the median score", () => {
+    const outcome = tallyVotes([vote("a", true, 0.9), vote("b", false, 0.3), vote("c", true, 0.7)]);
+
+    expect(outcome.passed).toBe(true);
+    expect(outcome.score).toBe(0.7);
+    expect(outcome.agreement).toBeCloseTo(2 / 3);
+    expect(outcome.disagreement).toBe(true);
+    expect(outcome.actual).toBe("2/3 judges passed, median score 0.7");
+  });
+
+  it("fails a tie", () => {
+    const outcome = tallyVotes([vote("a", true, 1), vote("b", false, 0), vote("c", true, 0.8), vote("d", false, 0.2)]);
+
+    expect(outcome.passed).toBe(false);
+    expect(outcome.score).toBe(0.5);
+    expect(outcome.agreement).toBe(0.5);
+  });
+
+  it("reports unanimous verdicts without disagreement", () => {
+    const outcome = tallyVotes([vote("a", false), vote("b", false)]);
+
+    expect(outcome).toMatchObject({ passed: false, agreement: 1, disagreement: false, score: undefined });
+    expect(outcome.actual).toBe("0/2 judges passed");
+  });
+
+  it("gives the reasoning of a judge on the winning side", () => {
+    const outcome = tallyVotes([
+      vote("strict", false, undefined, "Too vague"),
+      vote("lenient", true, undefined, "Answers the question"),
+      vote("other", true),
+    ]);
+
+    expect(outcome.reasoning).toBe("lenient: Answers the question");
+  });
+
+  it("leaves failed judges out of the count", () => {
+    const outcome = tallyVotes([vote("a", true, 1), { judge: "b", passed: false, error: "timeout" }, vote("c", false, 0)]);
+
+    expect(outcome.actual).toBe("1/2 judges passed, median score 0.5");
+    expect(outcome.passed).toBe(false);
+  });
+
+  it("throws when every judge failed", () => {
+    expect(() =>
+      tallyVotes([
+        { judge: "a", passed: false, error: "timeout" },
+        { judge: "b", passed: false, error: "invalid JSON" },
+      ])
+    ).toThrow("Every judge failed: a: timeout; b: invalid JSON");
+  });
+});
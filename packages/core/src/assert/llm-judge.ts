@@ -1,15 +1,20 @@
 import type { AgentResponse } from "../adapter/interface.js";
-import type { LLMProvider } from "../llm/provider.js";
+import type { LLMProvider, LLMResponse } from "../llm/provider.js";
 import type { AgentProfile } from "../discovery/agent-profile.js";
 import type { AssertionCollector } from "./collector.js";
+import type { AssertOptions, JudgeVote } from "./types.js";
+import type { JudgeCache } from "../store/judge-cache.js";
+import { describeLlmCall } from "../llm/fallback.js";
+import { z, type ZodType } from "zod";
 import {
   SENTIMENT_SYSTEM_PROMPT,
   LLM_JUDGE_SYSTEM_PROMPT,
   GUARDRAIL_SYSTEM_PROMPT,
   FACTUALITY_SYSTEM_PROMPT,
+  JUDGE_CORRECTION_PROMPT,
 } from "./prompts.js";
 
-function buildProfileContext(profile?: AgentProfile): string {
+export function buildProfileContext(profile?: AgentProfile): string {
   if (!profile) return "";
   const parts = [`\nAGENT PROFILE:\n${profile.description}`];
   if (profile.knownConstraints.length > 0) {
@@ -32,180 +37,440 @@ function buildToolCallContext(response: AgentResponse): string {
   return `\nTools called by agent during this response:\n${calls}\n`;
 }
 
-export function createLlmAssertions(collector: AssertionCollector, llmProvider?: LLMProvider, agentProfile?: AgentProfile) {
-  function requireProvider(): LLMProvider {
-    if (!llmProvider) {
-      throw new Error(
-        "LLM assertions require an LLM provider. Configure one in fabrik.config.ts under llm.provider."
-      );
-    }
-    return llmProvider;
+function requireProvider(llmProvider?: LLMProvider): LLMProvider {
+  if (!llmProvider) {
+    throw new Error(
+      "LLM assertions require an LLM provider. Configure one in fabrik.config.ts under llm.provider."
+    );
   }
+  return llmProvider;
+}
 
-  async function callJudge(
-    systemPrompt: string,
-    userPrompt: string
-  ): Promise<Record<string, unknown>> {
-    const provider = requireProvider();
-    const response = await provider.generate({
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0,
-    });
-
-    try {
-      // Try to parse the response text as JSON, stripping markdown fences if present
-      let text = response.text.trim();
-      if (text.startsWith("```")) {
-        text = text.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
-      }
-      return JSON.parse(text);
-    } catch {
-      return { error: "Failed to parse LLM judge response", raw: response.text };
+const JUDGE_OUTPUT_RETRIES = 2;
+const JUDGE_TEMPERATURE = 0;
+
+const reasoning = z.string().optional();
+
+export const SentimentJudgeSchema = z.object({
+  matches: z.boolean(),
+  score: z.number().min(1).max(5),
+  reasoning,
+});
+
+export function scoreJudgeSchema(scale: number) {
+  return z.object({ score: z.number().min(1).max(scale), reasoning });
+}
+
+export const GuardrailJudgeSchema = z.object({
+  passed: z.boolean(),
+  violations: z.array(z.string()).optional(),
+  reasoning,
+});
+
+export const FactualityJudgeSchema = z.object({
+  factual: z.boolean(),
+  score: z.number().min(1).max(5),
+  reasoning,
+});
+
+type Validated<T> = { success: true; data: T } | { success: false; problem: string };
+
+/** Validate the provider's parsed output, or failing that the text with any markdown fences stripped */
+function validateJudgeOutput<T>(response: LLMResponse, schema: ZodType<T>): Validated<T> {
+  if (response.parsed !== undefined) {
+    const parsed = schema.safeParse(response.parsed);
+    if (parsed.success) return { success: true, data: parsed.data };
+  }
+
+  let text = response.text.trim();
+  if (text.startsWith("```")) {
+    text = text.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, problem: `not valid JSON: ${JSON.stringify(response.text.slice(0, 200))}` };
+  }
+  const parsed = schema.safeParse(json);
+  if (parsed.success) return { success: true, data: parsed.data };
+  return {
+    success: false,
+    problem: parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; "),
+  };
+}
+
+/**
+ * Ask the judge for output matching `schema`. Invalid output is sent back
+ * with what was wrong, up to JUDGE_OUTPUT_RETRIES times, before giving up.
+ * Valid output is served from and saved to the cache, when the provider
+ * names its model.
+ */
+export async function callJudge<T>(
+  llmProvider: LLMProvider | undefined,
+  systemPrompt: string,
+  userPrompt: string,
+  schema: ZodType<T>,
+  cache?: JudgeCache
+): Promise<T> {
+  return (await judgeWithCallNotes(llmProvider, systemPrompt, userPrompt, schema, cache)).result;
+}
+
+/** callJudge, plus a note for each LLM call that needed retries or a fallback provider */
+async function judgeWithCallNotes<T>(
+  llmProvider: LLMProvider | undefined,
+  systemPrompt: string,
+  userPrompt: string,
+  schema: ZodType<T>,
+  cache?: JudgeCache
+): Promise<{ result: T; notes: string[] }> {
+  const provider = requireProvider(llmProvider);
+  const cacheKey =
+    cache && provider.name && provider.model
+      ? { provider: provider.name, model: provider.model, systemPrompt, userPrompt, temperature: JUDGE_TEMPERATURE }
+      : undefined;
+  if (cacheKey) {
+    const cached = cache!.get(cacheKey, (value) => schema.safeParse(value).success);
+    if (cached !== undefined) return { result: schema.parse(cached), notes: [] };
+  }
+
+  const messages: { role: "system" | "user" | "assistant"; content: string }[] = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt },
+  ];
+
+  const notes: string[] = [];
+  let problem = "";
+  for (let attempt = 0; attempt <= JUDGE_OUTPUT_RETRIES; attempt++) {
+    const response = await provider.generate({ messages, outputSchema: schema, temperature: JUDGE_TEMPERATURE });
+    const note = describeLlmCall(response);
+    if (note) notes.push(note);
+    const result = validateJudgeOutput(response, schema);
+    if (result.success) {
+      if (cacheKey) cache!.set(cacheKey, result.data);
+      return { result: result.data, notes };
     }
+
+    problem = result.problem;
+    messages.push(
+      { role: "assistant", content: response.text },
+      { role: "user", content: `${JUDGE_CORRECTION_PROMPT}\n\nProblem: ${problem}` }
+    );
   }
+  throw new Error(`Judge gave invalid output ${JUDGE_OUTPUT_RETRIES + 1} times: ${problem}`);
+}
+
+/** An LLM that grades responses. Several judges form a panel that votes on each judged assertion. */
+export interface Judge {
+  name: string;
+  provider: LLMProvider;
+}
+
+/** Where LLM assertions get their verdicts */
+export interface JudgeSetup {
+  llmProvider?: LLMProvider;
+  /** A panel votes instead of llmProvider */
+  judges?: Judge[];
+  cache?: JudgeCache;
+}
 
+/** A judge prompt, the shape its answer must have, and the rule that turns the answer into a verdict */
+export interface JudgeCall<T = Record<string, unknown>> {
+  systemPrompt: string;
+  userPrompt: string;
+  schema: ZodType<T>;
+  verdict(result: T): JudgeVerdict;
+}
+
+export interface JudgeVerdict {
+  passed: boolean;
+  score?: number;
+  actual: string;
+  reasoning?: string;
+}
+
+export function buildSentimentJudge(
+  response: AgentResponse,
+  expected: string,
+  agentProfile?: AgentProfile
+): JudgeCall<z.infer<typeof SentimentJudgeSchema>> {
   return {
-    async sentiment(response: AgentResponse, expected: string): Promise<void> {
-      const start = performance.now();
+    systemPrompt: SENTIMENT_SYSTEM_PROMPT,
+    userPrompt: `${buildProfileContext(agentProfile)}${buildToolCallContext(response)}Agent response: "${response.text}"\n\nExpected sentiment: ${expected}`,
+    schema: SentimentJudgeSchema,
+    verdict: (result) => ({
+      passed: result.matches || result.score >= 3,
+      score: result.score,
+      actual: `score ${result.score}/5`,
+      reasoning: result.reasoning,
+    }),
+  };
+}
+
+export function buildLlmJudge(
+  response: AgentResponse,
+  opts: { criteria: string; threshold: number; scale?: number },
+  agentProfile?: AgentProfile
+): JudgeCall<{ score: number; reasoning?: string }> {
+  const scale = opts.scale ?? 5;
+  return {
+    systemPrompt: LLM_JUDGE_SYSTEM_PROMPT,
+    userPrompt: `${buildProfileContext(agentProfile)}${buildToolCallContext(response)}Agent response: "${response.text}"\n\nCriteria: ${opts.criteria}\nScale: 1-${scale}`,
+    schema: scoreJudgeSchema(scale),
+    verdict: (result) => ({
+      passed: result.score >= opts.threshold,
+      score: result.score,
+      actual: `${result.score}/${scale}`,
+      reasoning: result.reasoning,
+    }),
+  };
+}
+
+export function guardrailRules(opts: { mustNot?: string[]; must?: string[] }): string[] {
+  const rules: string[] = [];
+  if (opts.must) rules.push(`MUST contain themes/ideas: ${opts.must.join(", ")}`);
+  if (opts.mustNot) rules.push(`MUST NOT contain themes/ideas: ${opts.mustNot.join(", ")}`);
+  return rules;
+}
+
+export function buildGuardrailJudge(
+  response: AgentResponse,
+  opts: { mustNot?: string[]; must?: string[] },
+  agentProfile?: AgentProfile
+): JudgeCall<z.infer<typeof GuardrailJudgeSchema>> {
+  return {
+    systemPrompt: GUARDRAIL_SYSTEM_PROMPT,
+    userPrompt: `${buildProfileContext(agentProfile)}${buildToolCallContext(response)}Agent response: "${response.text}"\n\nRules:\n${guardrailRules(opts).join("\n")}`,
+    schema: GuardrailJudgeSchema,
+    verdict: (result) => ({
+      passed: result.passed,
+      actual: result.passed ? "(all rules followed)" : `violations: ${result.violations?.join(", ")}`,
+      reasoning: result.reasoning,
+    }),
+  };
+}
+
+export function buildFactualityJudge(
+  response: AgentResponse,
+  opts: { groundTruth: string; context?: string },
+  agentProfile?: AgentProfile
+): JudgeCall<z.infer<typeof FactualityJudgeSchema>> {
+  let prompt = `${buildProfileContext(agentProfile)}${buildToolCallContext(response)}Agent response: "${response.text}"\n\nGround truth: ${opts.groundTruth}`;
+  if (opts.context) prompt += `\nContext: ${opts.context}`;
+  return {
+    systemPrompt: FACTUALITY_SYSTEM_PROMPT,
+    userPrompt: prompt,
+    schema: FactualityJudgeSchema,
+    verdict: (result) => ({
+      passed: result.factual || result.score >= 3,
+      score: result.score,
+      actual: `score ${result.score}/5`,
+      reasoning: result.reasoning,
+    }),
+  };
+}
+
+/** Ask every judge in parallel. A judge that fails or never gives valid output casts an error vote. */
+export async function castVotes<T>(call: JudgeCall<T>, judges: Judge[], cache?: JudgeCache): Promise<JudgeVote[]> {
+  return Promise.all(
+    judges.map(async (judge): Promise<JudgeVote> => {
       try {
-        const profileCtx = buildProfileContext(agentProfile);
-        const result = await callJudge(
-          SENTIMENT_SYSTEM_PROMPT,
-          `${profileCtx}${buildToolCallContext(response)}Agent response: "${response.text}"\n\nExpected sentiment: ${expected}`
+        const { result, notes } = await judgeWithCallNotes(
+          judge.provider,
+          call.systemPrompt,
+          call.userPrompt,
+          call.schema,
+          cache
         );
-
-        const passed = result.matches === true || (result.score as number) >= 3;
-        collector.record({
-          type: "sentiment",
-          passed,
-          expected,
-          actual: `score ${result.score}/5`,
-          reasoning: result.reasoning as string,
-          latencyMs: performance.now() - start,
-        });
+        const verdict = call.verdict(result);
+        const reasoning = withCallNotes(verdict.reasoning, notes);
+        return {
+          judge: judge.name,
+          passed: verdict.passed,
+          ...(verdict.score !== undefined ? { score: verdict.score } : {}),
+          ...(reasoning ? { reasoning } : {}),
+        };
       } catch (e) {
-        collector.record({
-          type: "sentiment",
-          passed: false,
-          expected,
-          error: e instanceof Error ? e.message : String(e),
-          latencyMs: performance.now() - start,
-        });
+        return { judge: judge.name, passed: false, error: e instanceof Error ? e.message : String(e) };
       }
+    })
+  );
+}
+
+/** Retries and fallbacks go after the judge's own reasoning, so a verdict from a fallback model is visible */
+function withCallNotes(reasoning: string | undefined, notes: string[]): string | undefined {
+  if (notes.length === 0) return reasoning;
+  return [reasoning, ...notes.map((n) => `[${n}]`)].filter(Boolean).join("\n");
+}
+
+export interface PanelOutcome {
+  /** Majority of the valid votes; a tie fails */
+  passed: boolean;
+  /** Median score of the valid votes that gave one */
+  score?: number;
+  /** Share of valid votes on the majority side */
+  agreement: number;
+  disagreement: boolean;
+  actual: string;
+  reasoning?: string;
+}
+
+/** Combine panel votes. Error votes are left out; if every judge failed there is no verdict. */
+export function tallyVotes(votes: JudgeVote[]): PanelOutcome {
+  const valid = votes.filter((v) => v.error === undefined);
+  if (valid.length === 0) {
+    throw new Error(`Every judge failed: ${votes.map((v) => `${v.judge}: ${v.error}`).join("; ")}`);
+  }
+
+  const passCount = valid.filter((v) => v.passed).length;
+  const passed = passCount * 2 > valid.length;
+  const scores = valid.flatMap((v) => (v.score !== undefined ? [v.score] : [])).sort((a, b) => a - b);
+  const score =
+    scores.length === 0
+      ? undefined
+      : scores.length % 2 === 1
+        ? scores[(scores.length - 1) / 2]
+        : (scores[scores.length / 2 - 1] + scores[scores.length / 2]) / 2;
+  const majority = valid.filter((v) => v.passed === passed);
+  const reasoning = majority.find((v) => v.reasoning);
+
+  return {
+    passed,
+    score,
+    agreement: Math.max(passCount, valid.length - passCount) / valid.length,
+    disagreement: passCount !== 0 && passCount !== valid.length,
+    actual: `${passCount}/${valid.length} judges passed${score !== undefined ? `, median score ${score}` : ""}`,
+    reasoning: reasoning ? `${reasoning.judge}: ${reasoning.reasoning}` : undefined,
+  };
+}
+
+/**
+ * Run a judge call and record the assertion: through the panel when judges
+ * are configured, otherwise through the single LLM provider. When no verdict
+ * could be had the assertion fails with status "judge-error", since the
+ * agent was never judged.
+ */
+export async function recordJudgement<T>(
+  collector: AssertionCollector,
+  type: string,
+  expected: unknown,
+  build: () => JudgeCall<T>,
+  options: AssertOptions | undefined,
+  judging: JudgeSetup
+): Promise<void> {
+  const start = performance.now();
+  try {
+    const call = build();
+    if (judging.judges && judging.judges.length > 0) {
+      const votes = await castVotes(call, judging.judges, judging.cache);
+      const outcome = tallyVotes(votes);
+      collector.record({
+        type,
+        passed: outcome.passed,
+        expected,
+        actual: outcome.actual,
+        reasoning: outcome.reasoning,
+        latencyMs: performance.now() - start,
+        panel: { votes, agreement: outcome.agreement, disagreement: outcome.disagreement },
+      }, options);
+      return;
+    }
+
+    const { result, notes } = await judgeWithCallNotes(
+      judging.llmProvider,
+      call.systemPrompt,
+      call.userPrompt,
+      call.schema,
+      judging.cache
+    );
+    const verdict = call.verdict(result);
+    collector.record({
+      type,
+      passed: verdict.passed,
+      expected,
+      actual: verdict.actual,
+      reasoning: withCallNotes(verdict.reasoning, notes),
+      latencyMs: performance.now() - start,
+    }, options);
+  } catch (e) {
+    collector.record({
+      type,
+      passed: false,
+      status: "judge-error",
+      expected,
+      error: e instanceof Error ? e.message : String(e),
+      latencyMs: performance.now() - start,
+    }, options);
+  }
+}
+
+export function createLlmAssertions(
+  collector: AssertionCollector,
+  llmProvider?: LLMProvider,
+  agentProfile?: AgentProfile,
+  judges?: Judge[],
+  cache?: JudgeCache
+) {
+  const judging: JudgeSetup = { llmProvider, judges, cache };
+  return {
+    sentiment(response: AgentResponse, expected: string, options?: AssertOptions): Promise<void> {
+      return recordJudgement(
+        collector,
+        "sentiment",
+        expected,
+        () => buildSentimentJudge(response, expected, agentProfile),
+        options,
+        judging
+      );
     },
 
-    async llmJudge(
+    llmJudge(
       response: AgentResponse,
-      opts: { criteria: string; threshold: number; scale?: number }
+      opts: { criteria: string; threshold: number; scale?: number } & AssertOptions
     ): Promise<void> {
-      const scale = opts.scale ?? 5;
-      const start = performance.now();
-      try {
-        const profileCtx = buildProfileContext(agentProfile);
-        const result = await callJudge(
-          LLM_JUDGE_SYSTEM_PROMPT,
-          `${profileCtx}${buildToolCallContext(response)}Agent response: "${response.text}"\n\nCriteria: ${opts.criteria}\nScale: 1-${scale}`
-        );
-
-        const score = result.score as number;
-        const passed = score >= opts.threshold;
-        collector.record({
-          type: "llmJudge",
-          passed,
-          expected: `>= ${opts.threshold}/${scale}`,
-          actual: `${score}/${scale}`,
-          reasoning: result.reasoning as string,
-          latencyMs: performance.now() - start,
-        });
-      } catch (e) {
-        collector.record({
-          type: "llmJudge",
-          passed: false,
-          expected: `>= ${opts.threshold}/${scale}`,
-          error: e instanceof Error ? e.message : String(e),
-          latencyMs: performance.now() - start,
-        });
-      }
+      return recordJudgement(
+        collector,
+        "llmJudge",
+        `>= ${opts.threshold}/${opts.scale ?? 5}`,
+        () => buildLlmJudge(response, opts, agentProfile),
+        opts,
+        judging
+      );
     },
 
-    async guardrail(
+    guardrail(
       response: AgentResponse,
-      opts: { mustNot?: string[]; must?: string[] }
+      opts: { mustNot?: string[]; must?: string[] } & AssertOptions
     ): Promise<void> {
-      const start = performance.now();
-      try {
-        const rules: string[] = [];
-        if (opts.must) rules.push(`MUST contain themes/ideas: ${opts.must.join(", ")}`);
-        if (opts.mustNot)
-          rules.push(`MUST NOT contain themes/ideas: ${opts.mustNot.join(", ")}`);
-
-        const profileCtx = buildProfileContext(agentProfile);
-        const result = await callJudge(
-          GUARDRAIL_SYSTEM_PROMPT,
-          `${profileCtx}${buildToolCallContext(response)}Agent response: "${response.text}"\n\nRules:\n${rules.join("\n")}`
-        );
-
-        const passed = result.passed === true;
-        collector.record({
-          type: "guardrail",
-          passed,
-          expected: rules.join("; "),
-          actual: passed
-            ? "(all rules followed)"
-            : `violations: ${(result.violations as string[])?.join(", ")}`,
-          reasoning: result.reasoning as string,
-          latencyMs: performance.now() - start,
-        });
-      } catch (e) {
-        collector.record({
-          type: "guardrail",
-          passed: false,
-          expected: JSON.stringify(opts),
-          error: e instanceof Error ? e.message : String(e),
-          latencyMs: performance.now() - start,
-        });
-      }
+      return recordJudgement(
+        collector,
+        "guardrail",
+        guardrailRules(opts).join("; "),
+        () => buildGuardrailJudge(response, opts, agentProfile),
+        opts,
+        judging
+      );
     },
 
-    async factuality(
+    factuality(
       response: AgentResponse,
-      opts: { groundTruth: string; context?: string }
+      opts: { groundTruth: string; context?: string } & AssertOptions
     ): Promise<void> {
-      const start = performance.now();
-      try {
-        const profileCtx = buildProfileContext(agentProfile);
-        let prompt = `${profileCtx}${buildToolCallContext(response)}Agent response: "${response.text}"\n\nGround truth: ${opts.groundTruth}`;
-        if (opts.context) prompt += `\nContext: ${opts.context}`;
-
-        const result = await callJudge(FACTUALITY_SYSTEM_PROMPT, prompt);
-
-        const passed = result.factual === true || (result.score as number) >= 3;
-        collector.record({
-          type: "factuality",
-          passed,
-          expected: opts.groundTruth.slice(0, 200),
-          actual: `score ${result.score}/5`,
-          reasoning: result.reasoning as string,
-          latencyMs: performance.now() - start,
-        });
-      } catch (e) {
-        collector.record({
-          type: "factuality",
-          passed: false,
-          expected: opts.groundTruth.slice(0, 200),
-          error: e instanceof Error ? e.message : String(e),
-          latencyMs: performance.now() - start,
-        });
-      }
+      return recordJudgement(
+        collector,
+        "factuality",
+        opts.groundTruth.slice(0, 200),
+        () => buildFactualityJudge(response, opts, agentProfile),
+        opts,
+        judging
+      );
     },
 
     async custom(
       name: string,
       fn: (response: AgentResponse) => boolean | Promise<boolean>,
-      response: AgentResponse
+      response: AgentResponse,
+      options?: AssertOptions
     ): Promise<void> {
       const start = performance.now();
       try {
@@ -214,14 +479,14 @@ export function createLlmAssertions(collector: AssertionCollector, llmProvider?:
           type: `custom:${name}`,
           passed,
           latencyMs: performance.now() - start,
-        });
+        }, options);
       } catch (e) {
         collector.record({
           type: `custom:${name}`,
           passed: false,
           error: e instanceof Error ? e.message : String(e),
           latencyMs: performance.now() - start,
-        });
+        }, options);
       }
     },
   };
@@ -1,40 +1,53 @@
 import type { AgentResponse } from "../adapter/interface.js";
 import type { AssertionCollector } from "./collector.js";
+import type { AssertOptions } from "./types.js";
 import type { ZodType } from "zod";
+import { describeMatcher, matchesSequence, matchValue, type ToolMatcher } from "./tool-matchers.js";
+
+function calledNames(response: AgentResponse): string {
+  return response.toolCalls.map((tc) => tc.name).join(", ") || "(no tools called)";
+}
+
+function formatCount(expected: number | { min?: number; max?: number }): string {
+  if (typeof expected === "number") return `${expected}`;
+  return [expected.min !== undefined ? `>= ${expected.min}` : "", expected.max !== undefined ? `<= ${expected.max}` : ""]
+    .filter(Boolean)
+    .join(" and ");
+}
 
 export function createLocalAssertions(collector: AssertionCollector) {
   return {
-    contains(response: AgentResponse, text: string): void {
+    contains(response: AgentResponse, text: string, options?: AssertOptions): void {
       const passed = response.text.toLowerCase().includes(text.toLowerCase());
       collector.record({
         type: "contains",
         passed,
         expected: text,
         actual: passed ? text : response.text.slice(0, 200),
-      });
+      }, options);
     },
 
-    notContains(response: AgentResponse, text: string): void {
+    notContains(response: AgentResponse, text: string, options?: AssertOptions): void {
       const passed = !response.text.toLowerCase().includes(text.toLowerCase());
       collector.record({
         type: "notContains",
         passed,
         expected: `not "${text}"`,
         actual: passed ? "(not found)" : text,
-      });
+      }, options);
     },
 
-    matches(response: AgentResponse, pattern: RegExp): void {
+    matches(response: AgentResponse, pattern: RegExp, options?: AssertOptions): void {
       const passed = pattern.test(response.text);
       collector.record({
         type: "matches",
         passed,
         expected: pattern.toString(),
         actual: response.text.slice(0, 200),
-      });
+      }, options);
     },
 
-    jsonSchema(response: AgentResponse, schema: ZodType): void {
+    jsonSchema(response: AgentResponse, schema: ZodType, options?: AssertOptions): void {
       try {
         const parsed = JSON.parse(response.text);
         const result = schema.safeParse(parsed);
@@ -43,7 +56,7 @@ export function createLocalAssertions(collector: AssertionCollector) {
           passed: result.success,
           expected: "valid schema",
           actual: result.success ? "valid" : result.error.message,
-        });
+        }, options);
       } catch (e) {
         collector.record({
           type: "jsonSchema",
@@ -51,21 +64,37 @@ export function createLocalAssertions(collector: AssertionCollector) {
           expected: "valid JSON",
           actual: response.text.slice(0, 200),
           error: e instanceof Error ? e.message : String(e),
-        });
+        }, options);
       }
     },
 
-    latency(response: AgentResponse, opts: { max: number }): void {
+    latency(response: AgentResponse, opts: { max: number } & AssertOptions): void {
       const passed = response.latencyMs <= opts.max;
       collector.record({
         type: "latency",
         passed,
         expected: `<= ${opts.max}ms`,
         actual: `${Math.round(response.latencyMs)}ms`,
-      });
+      }, opts);
+    },
+
+    timeToFirstToken(response: AgentResponse, opts: { max: number } & AssertOptions): void {
+      const ttft = response.streamMetrics?.timeToFirstTokenMs;
+      const passed = ttft !== undefined && ttft <= opts.max;
+      collector.record({
+        type: "timeToFirstToken",
+        passed,
+        expected: `<= ${opts.max}ms`,
+        actual:
+          ttft !== undefined
+            ? `${Math.round(ttft)}ms`
+            : response.streamMetrics
+              ? "(no text streamed)"
+              : "(not a streaming response)",
+      }, opts);
     },
 
-    tokenUsage(response: AgentResponse, opts: { max: number }): void {
+    tokenUsage(response: AgentResponse, opts: { max: number } & AssertOptions): void {
       const total = response.tokenUsage?.total ?? 0;
       const passed = total <= opts.max;
       collector.record({
@@ -73,27 +102,104 @@ export function createLocalAssertions(collector: AssertionCollector) {
         passed,
         expected: `<= ${opts.max} tokens`,
         actual: `${total} tokens`,
-      });
+      }, opts);
     },
 
-    toolCalled(response: AgentResponse, toolName: string): void {
+    toolCalled(response: AgentResponse, toolName: string, options?: AssertOptions): void {
       const passed = response.toolCalls.some((tc) => tc.name === toolName);
       collector.record({
         type: "toolCalled",
         passed,
         expected: toolName,
-        actual: response.toolCalls.map((tc) => tc.name).join(", ") || "(no tools called)",
-      });
+        actual: calledNames(response),
+      }, options);
     },
 
-    toolNotCalled(response: AgentResponse, toolName: string): void {
+    toolNotCalled(response: AgentResponse, toolName: string, options?: AssertOptions): void {
       const passed = !response.toolCalls.some((tc) => tc.name === toolName);
       collector.record({
         type: "toolNotCalled",
         passed,
         expected: `not ${toolName}`,
-        actual: response.toolCalls.map((tc) => tc.name).join(", ") || "(no tools called)",
-      });
+        actual: calledNames(response),
+      }, options);
+    },
+
+    toolCalledWith(
+      response: AgentResponse,
+      toolName: string,
+      matcher: ToolMatcher<Record<string, unknown>>,
+      options?: AssertOptions
+    ): void {
+      const calls = response.toolCalls.filter((tc) => tc.name === toolName);
+      const outcomes = calls.map((tc) => ({ call: tc, ...matchValue(matcher, tc.arguments) }));
+      const passed = outcomes.some((o) => o.passed);
+      collector.record({
+        type: "toolCalledWith",
+        passed,
+        expected: `${toolName} with ${describeMatcher(matcher)}`,
+        actual:
+          calls.length === 0
+            ? `${toolName} not called (called: ${calledNames(response)})`
+            : outcomes
+                .map((o) => `${toolName}(${JSON.stringify(o.call.arguments)})${o.passed ? "" : ` — ${o.mismatches.join("; ")}`}`)
+                .join("\n"),
+      }, options);
+    },
+
+    toolCallOrder(response: AgentResponse, toolNames: string[], opts?: { strict?: boolean } & AssertOptions): void {
+      const called = response.toolCalls.map((tc) => tc.name);
+      collector.record({
+        type: "toolCallOrder",
+        passed: matchesSequence(called, toolNames, opts?.strict),
+        expected: `${opts?.strict ? "exactly " : ""}${toolNames.join(" → ")}`,
+        actual: called.join(" → ") || "(no tools called)",
+      }, opts);
+    },
+
+    toolCallCount(
+      response: AgentResponse,
+      toolName: string,
+      expected: number | { min?: number; max?: number },
+      options?: AssertOptions
+    ): void {
+      const count = response.toolCalls.filter((tc) => tc.name === toolName).length;
+      const passed =
+        typeof expected === "number"
+          ? count === expected
+          : (expected.min === undefined || count >= expected.min) &&
+            (expected.max === undefined || count <= expected.max);
+      collector.record({
+        type: "toolCallCount",
+        passed,
+        expected: `${toolName} called ${formatCount(expected)} times`,
+        actual: `${count} times`,
+      }, options);
+    },
+
+    toolResult(
+      response: AgentResponse,
+      toolName: string,
+      matcher: ToolMatcher | string | number | boolean | null,
+      options?: AssertOptions
+    ): void {
+      const calls = response.toolCalls.filter((tc) => tc.name === toolName);
+      const withResult = calls.filter((tc) => tc.result !== undefined);
+      const outcomes = withResult.map((tc) => ({ call: tc, ...matchValue(matcher, tc.result) }));
+      const passed = outcomes.some((o) => o.passed);
+      collector.record({
+        type: "toolResult",
+        passed,
+        expected: `${toolName} result ${describeMatcher(matcher)}`,
+        actual:
+          calls.length === 0
+            ? `${toolName} not called (called: ${calledNames(response)})`
+            : withResult.length === 0
+              ? `${toolName} called without a recorded result`
+              : outcomes
+                  .map((o) => `${JSON.stringify(o.call.result)}${o.passed ? "" : ` — ${o.mismatches.join("; ")}`}`)
+                  .join("\n"),
+      }, options);
     },
   };
 }
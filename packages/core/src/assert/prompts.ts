@@ -40,3 +40,28 @@ Respond with a JSON object:
   "score": 1-5 (1=completely wrong, 5=perfectly accurate),
   "reasoning": "brief explanation"
 }`;
+
+export const JUDGE_CORRECTION_PROMPT = `Your previous reply could not be used.
+Reply again with only the JSON object described in your instructions: no markdown fences, no other text, every required field present with the right type.`;
+
+export const CONVERSATION_JUDGE_SYSTEM_PROMPT = `You are an expert evaluator of multi-turn conversations between a user and an AI agent.
+You will be given the full conversation transcript, including the tools the agent called, and specific evaluation criteria.
+Judge the agent's behavior across the whole conversation, not just its last reply, and score it on the given scale.
+
+Respond with a JSON object:
+{
+  "score": <number on the given scale>,
+  "reasoning": "brief explanation of your score, citing turn numbers"
+}`;
+
+export const CONSISTENCY_SYSTEM_PROMPT = `You are an expert at checking AI agents for consistency across a conversation.
+You will be given a conversation transcript, including the tools the agent called.
+Check whether the agent contradicts itself, forgets or changes facts established in earlier turns (names, numbers, dates, decisions), or ignores information the user already gave.
+
+Respond with a JSON object:
+{
+  "consistent": true/false,
+  "score": 1-5 (1=badly inconsistent, 5=fully consistent),
+  "inconsistencies": ["turn N: description of each problem, if any"],
+  "reasoning": "brief explanation"
+}`;
@@ -1,8 +1,51 @@
-import type { AssertionResult } from "./types.js";
+import type { AssertionResult, AssertionSeverity } from "./types.js";
 
+const SEVERITY_WEIGHTS: Record<AssertionSeverity, number> = {
+  critical: 3,
+  major: 1,
+  minor: 0.5,
+};
+
+export function assertionWeight(result: AssertionResult): number {
+  return result.weight ?? SEVERITY_WEIGHTS[result.severity ?? "major"];
+}
+
+/** Critical assertions always count, even when marked soft */
+function isSoft(result: AssertionResult): boolean {
+  return !!result.soft && result.severity !== "critical";
+}
+
+function isJudgeError(result: AssertionResult): boolean {
+  return result.status === "judge-error";
+}
+
+/** Weighted share of passing assertions. Soft assertions and judge errors, which say nothing about the agent, don't count. */
 export function calculateScore(results: AssertionResult[]): number {
-  if (results.length === 0) return 1;
+  const scored = results.filter((r) => !isSoft(r) && !isJudgeError(r));
+  const total = scored.reduce((sum, r) => sum + assertionWeight(r), 0);
+  if (total <= 0) return 1;
+
+  const passed = scored.filter((r) => r.passed).reduce((sum, r) => sum + assertionWeight(r), 0);
+  return passed / total;
+}
+
+/**
+ * A scenario passes when no critical assertion failed, no judge broke on a
+ * non-soft assertion, and either every non-soft assertion passed or, with a
+ * passThreshold, the score reaches it.
+ */
+export function isScenarioPassed(results: AssertionResult[], passThreshold?: number): boolean {
+  // Don't vacuously pass: 0 assertions means the test didn't actually evaluate anything
+  if (results.length === 0) return false;
+  if (results.some((r) => !r.passed && r.severity === "critical")) return false;
+  if (results.some((r) => isJudgeError(r) && !isSoft(r))) return false;
+  if (passThreshold !== undefined) return calculateScore(results) >= passThreshold;
+  return results.every((r) => r.passed || isSoft(r));
+}
 
-  const passed = results.filter((r) => r.passed).length;
-  return passed / results.length;
+/** The scenario failed only because a judge broke: every other non-soft assertion passed */
+export function failedOnJudgeErrors(result: { passed: boolean; error?: string; assertions: AssertionResult[] }): boolean {
+  if (result.passed || result.error) return false;
+  const blocking = result.assertions.filter((r) => !r.passed && !isSoft(r));
+  return blocking.length > 0 && blocking.every(isJudgeError);
 }
@@ -0,0 +1,113 @@
+import type { ZodType } from "zod";
+import { isRecord } from "../util.js";
+
+/**
+ * Expectation for tool arguments or results: a partial object (nested objects
+ * are partial too, arrays must match element by element, RegExp values test
+ * strings), a zod schema, or a predicate.
+ */
+export type ToolMatcher<T = unknown> = Record<string, unknown> | ZodType | ((value: T) => boolean);
+
+export interface MatchOutcome {
+  passed: boolean;
+  /** Why the value didn't match, one entry per differing path */
+  mismatches: string[];
+}
+
+export function describeMatcher(matcher: unknown): string {
+  if (isZodType(matcher)) return "matching schema";
+  if (typeof matcher === "function") return "matching predicate";
+  return stringify(matcher);
+}
+
+export function matchValue(matcher: unknown, value: unknown): MatchOutcome {
+  if (isZodType(matcher)) {
+    const result = matcher.safeParse(value);
+    return {
+      passed: result.success,
+      mismatches: result.success
+        ? []
+        : result.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`),
+    };
+  }
+  if (typeof matcher === "function") {
+    try {
+      const passed = (matcher as (value: unknown) => boolean)(value) === true;
+      return { passed, mismatches: passed ? [] : ["predicate returned false"] };
+    } catch (e) {
+      return { passed: false, mismatches: [`predicate threw: ${e instanceof Error ? e.message : String(e)}`] };
+    }
+  }
+
+  const mismatches: string[] = [];
+  collectMismatches(matcher, value, "", mismatches);
+  return { passed: mismatches.length === 0, mismatches };
+}
+
+function collectMismatches(expected: unknown, actual: unknown, path: string, out: string[]): void {
+  const where = path || "(root)";
+
+  if (expected instanceof RegExp) {
+    if (typeof actual !== "string" || !expected.test(actual)) {
+      out.push(`${where}: expected ${expected.toString()}, got ${stringify(actual)}`);
+    }
+    return;
+  }
+
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      out.push(`${where}: expected ${stringify(expected)}, got ${stringify(actual)}`);
+      return;
+    }
+    expected.forEach((item, i) => collectMismatches(item, actual[i], `${path}[${i}]`, out));
+    return;
+  }
+
+  if (isRecord(expected)) {
+    if (!isRecord(actual) || actual instanceof RegExp) {
+      out.push(`${where}: expected an object, got ${stringify(actual)}`);
+      return;
+    }
+    for (const [key, value] of Object.entries(expected)) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in actual)) {
+        out.push(`${childPath}: missing (expected ${stringify(value)})`);
+      } else {
+        collectMismatches(value, actual[key], childPath, out);
+      }
+    }
+    return;
+  }
+
+  if (!Object.is(expected, actual)) {
+    out.push(`${where}: expected ${stringify(expected)}, got ${stringify(actual)}`);
+  }
+}
+
+/** Whether `called` contains `expected` in order: exactly when strict, otherwise with other calls allowed in between */
+export function matchesSequence(called: string[], expected: string[], strict?: boolean): boolean {
+  if (strict) {
+    return called.length === expected.length && called.every((name, i) => name === expected[i]);
+  }
+  let next = 0;
+  for (const name of called) {
+    if (name === expected[next]) next++;
+    if (next === expected.length) break;
+  }
+  return next === expected.length;
+}
+
+function isZodType(value: unknown): value is ZodType {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { safeParse?: unknown }).safeParse === "function"
+  );
+}
+
+function stringify(value: unknown): string {
+  if (value instanceof RegExp) return value.toString();
+  if (value === undefined) return "undefined";
+  const text = JSON.stringify(value, (_key, v) => (v instanceof RegExp ? v.toString() : v));
+  return text.length > 200 ? text.slice(0, 197) + "..." : text;
+}
@@ -1,9 +1,46 @@
+export type AssertionSeverity = "critical" | "major" | "minor";
+
+/** Options accepted by every assertion */
+export interface AssertOptions {
+  /** Weight in the scenario score. Defaults by severity: critical 3, major 1, minor 0.5. */
+  weight?: number;
+  /** A failed critical assertion fails the scenario whatever its score. Default "major". */
+  severity?: AssertionSeverity;
+  /** Report a failure without failing the scenario or counting towards its score */
+  soft?: boolean;
+}
+
+/** One panel judge's vote on an LLM-judged assertion */
+export interface JudgeVote {
+  judge: string;
+  passed: boolean;
+  score?: number;
+  reasoning?: string;
+  /** The judge failed or answered unparseable JSON; its vote is not counted */
+  error?: string;
+}
+
+export interface PanelVerdict {
+  votes: JudgeVote[];
+  /** Share of counted votes on the majority side (0.5-1) */
+  agreement: number;
+  /** The judges did not all agree */
+  disagreement: boolean;
+}
+
 export interface AssertionResult {
   type: string;
   passed: boolean;
+  /** "judge-error": the LLM judge failed or never gave valid output, so the agent was not judged */
+  status?: "judge-error";
   expected?: unknown;
   actual?: unknown;
   reasoning?: string;
   latencyMs?: number;
   error?: string;
+  weight?: number;
+  severity?: AssertionSeverity;
+  soft?: boolean;
+  /** Set when a judge panel decided the assertion */
+  panel?: PanelVerdict;
 }
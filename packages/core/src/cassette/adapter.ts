@@ -0,0 +1,111 @@
+import {
+  AgentAdapter,
+  AgentConfig,
+  AgentResponse,
+  ConversationContext,
+} from "../adapter/interface.js";
+import type { CassetteMode, CassetteStore } from "./store.js";
+
+const DEFAULT_SCENARIO = "default";
+
+/**
+ * Wraps an AgentAdapter to record its turns to cassettes, or replays recorded
+ * turns without touching the agent. Turns are keyed by scenario name and turn
+ * index; replay fails when a turn is missing or its message has changed.
+ */
+export class CassetteAdapter implements AgentAdapter {
+  private store: CassetteStore;
+  private mode: CassetteMode;
+  private inner?: AgentAdapter;
+  private turnCounts = new Map<string, number>();
+
+  constructor(store: CassetteStore, mode: "replay");
+  constructor(store: CassetteStore, mode: "record", inner: AgentAdapter);
+  constructor(store: CassetteStore, mode: CassetteMode, inner?: AgentAdapter) {
+    if (mode === "record" && !inner) {
+      throw new Error("CassetteAdapter needs the live adapter to record from");
+    }
+    this.store = store;
+    this.mode = mode;
+    this.inner = inner;
+  }
+
+  async connect(config: AgentConfig): Promise<void> {
+    if (this.mode === "record") await this.inner!.connect(config);
+  }
+
+  async send(message: string, context?: ConversationContext): Promise<AgentResponse> {
+    const scenario = context?.scenario ?? DEFAULT_SCENARIO;
+    const conversationId = context?.conversationId ?? DEFAULT_SCENARIO;
+    const turn = this.turnCounts.get(conversationId) ?? 0;
+    this.turnCounts.set(conversationId, turn + 1);
+
+    return this.mode === "record"
+      ? this.record(scenario, turn, message, context)
+      : this.replay(scenario, turn, message);
+  }
+
+  async reset(): Promise<void> {
+    if (this.mode === "record") await this.inner!.reset();
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.mode === "record") await this.inner!.disconnect();
+  }
+
+  async endConversation(conversationId: string): Promise<void> {
+    this.turnCounts.delete(conversationId);
+    if (this.mode === "record") await this.inner!.endConversation?.(conversationId);
+  }
+
+  private async record(
+    scenario: string,
+    turn: number,
+    message: string,
+    context?: ConversationContext
+  ): Promise<AgentResponse> {
+    try {
+      const response = await this.inner!.send(message, context);
+      this.store.recordTurn(scenario, {
+        turn,
+        request: { message },
+        response: {
+          text: response.text,
+          toolCalls: response.toolCalls,
+          latencyMs: response.latencyMs,
+          tokenUsage: response.tokenUsage,
+          streamMetrics: response.streamMetrics,
+          retries: response.retries,
+          raw: response.raw,
+        },
+      });
+      return response;
+    } catch (e) {
+      this.store.recordTurn(scenario, {
+        turn,
+        request: { message },
+        error: e instanceof Error ? e.message : String(e),
+      });
+      throw e;
+    }
+  }
+
+  private async replay(scenario: string, turn: number, message: string): Promise<AgentResponse> {
+    const recording = await this.store.getTurn(scenario, turn);
+    const where = `scenario "${scenario}" turn ${turn + 1} (${this.store.scenarioPath(scenario)})`;
+
+    if (!recording) {
+      throw new Error(`No recorded agent response for ${where}. Re-record with \`fabrik run --record\`.`);
+    }
+    if (recording.request.message !== message) {
+      throw new Error(
+        `Cassette mismatch for ${where}: recorded message ${JSON.stringify(recording.request.message)}, got ${JSON.stringify(message)}. Re-record with \`fabrik run --record\`.`
+      );
+    }
+    if (recording.error !== undefined || !recording.response) {
+      throw new Error(recording.error ?? `Recorded turn for ${where} has no response`);
+    }
+
+    return new AgentResponse(recording.response);
+  }
+}
@@ -0,0 +1,52 @@
+import type { LLMProvider, LLMResponse } from "../llm/provider.js";
+import { llmRequestKey, type CassetteMode, type CassetteStore } from "./store.js";
+
+/**
+ * Wraps an LLMProvider to record its responses, or replays them without a
+ * provider. Calls are matched by a hash of messages, temperature and maxTokens;
+ * identical calls replay their recorded responses in order.
+ */
+export class CassetteLLMProvider implements LLMProvider {
+  private store: CassetteStore;
+  private mode: CassetteMode;
+  private inner?: LLMProvider;
+  private calls = new Map<string, number>();
+
+  constructor(store: CassetteStore, mode: "replay");
+  constructor(store: CassetteStore, mode: "record", inner: LLMProvider);
+  constructor(store: CassetteStore, mode: CassetteMode, inner?: LLMProvider) {
+    if (mode === "record" && !inner) {
+      throw new Error("CassetteLLMProvider needs the live provider to record from");
+    }
+    this.store = store;
+    this.mode = mode;
+    this.inner = inner;
+  }
+
+  async generate(params: Parameters<LLMProvider["generate"]>[0]): Promise<LLMResponse> {
+    const request = {
+      messages: params.messages,
+      temperature: params.temperature,
+      maxTokens: params.maxTokens,
+    };
+    const key = llmRequestKey(request);
+    const occurrence = this.calls.get(key) ?? 0;
+    this.calls.set(key, occurrence + 1);
+
+    if (this.mode === "record") {
+      const response = await this.inner!.generate(params);
+      await this.store.recordLLM(key, request, response, occurrence === 0);
+      return response;
+    }
+
+    const recording = await this.store.getLLM(key);
+    if (!recording || recording.responses.length === 0) {
+      const preview = params.messages.at(-1)?.content.slice(0, 120) ?? "";
+      throw new Error(
+        `No recorded LLM response for request ${key} in ${this.store.dir} (last message: ${JSON.stringify(preview)}). Re-record with \`fabrik run --record\`.`
+      );
+    }
+    // Extra identical calls reuse the last recorded response
+    return recording.responses[Math.min(occurrence, recording.responses.length - 1)];
+  }
+}
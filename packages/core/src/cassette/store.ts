@@ -0,0 +1,153 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { StreamMetrics, TokenUsage, ToolCall } from "../adapter/interface.js";
+import type { LLMResponse } from "../llm/provider.js";
+
+export type CassetteMode = "record" | "replay";
+
+export const DEFAULT_CASSETTE_DIR = ".fabrik/cassettes";
+const LLM_FILE = "llm.json";
+
+/** One recorded agent turn. Failed turns keep the error so replay fails the same way. */
+export interface AgentTurnRecording {
+  turn: number;
+  request: { message: string };
+  response?: {
+    text: string;
+    toolCalls: ToolCall[];
+    latencyMs: number;
+    tokenUsage?: TokenUsage;
+    streamMetrics?: StreamMetrics;
+    retries?: number;
+    raw?: unknown;
+  };
+  error?: string;
+}
+
+export interface ScenarioCassette {
+  scenario: string;
+  recordedAt: string;
+  turns: AgentTurnRecording[];
+}
+
+export interface LLMRecording {
+  request: { messages: { role: string; content: string }[]; temperature?: number; maxTokens?: number };
+  /** Responses in call order; identical requests replay them in the same order */
+  responses: LLMResponse[];
+}
+
+/**
+ * Cassette files for `fabrik run --record / --replay`: one JSON file per
+ * scenario holding its agent turns, plus llm.json with LLM calls keyed by a
+ * hash of the request. Everything is held in memory until save().
+ */
+export class CassetteStore {
+  readonly dir: string;
+  private scenarios = new Map<string, ScenarioCassette>();
+  private dirtyScenarios = new Set<string>();
+  private llm: Promise<Record<string, LLMRecording>> | null = null;
+  private llmDirty = false;
+
+  constructor(dir: string = DEFAULT_CASSETTE_DIR) {
+    this.dir = dir;
+  }
+
+  scenarioPath(scenario: string): string {
+    return join(this.dir, `${slugify(scenario)}.json`);
+  }
+
+  async getTurn(scenario: string, turn: number): Promise<AgentTurnRecording | undefined> {
+    const cassette = await this.loadScenario(scenario);
+    return cassette?.turns.find((t) => t.turn === turn);
+  }
+
+  /** Record a turn. Turn 0 starts the scenario's cassette over, dropping turns from older recordings. */
+  recordTurn(scenario: string, recording: AgentTurnRecording): void {
+    let cassette = this.scenarios.get(scenario);
+    if (!cassette || recording.turn === 0) {
+      cassette = { scenario, recordedAt: new Date().toISOString(), turns: [] };
+      this.scenarios.set(scenario, cassette);
+    }
+    cassette.turns = cassette.turns.filter((t) => t.turn !== recording.turn);
+    cassette.turns.push(recording);
+    cassette.turns.sort((a, b) => a.turn - b.turn);
+    this.dirtyScenarios.add(scenario);
+  }
+
+  async getLLM(key: string): Promise<LLMRecording | undefined> {
+    return (await this.loadLLM())[key];
+  }
+
+  /** Record an LLM call. The first call per key in a recording session replaces older responses. */
+  async recordLLM(key: string, request: LLMRecording["request"], response: LLMResponse, first: boolean): Promise<void> {
+    const llm = await this.loadLLM();
+    if (first || !llm[key]) llm[key] = { request, responses: [] };
+    llm[key].responses.push(response);
+    this.llmDirty = true;
+  }
+
+  /** Write every cassette changed since the last save */
+  async save(): Promise<void> {
+    if (this.dirtyScenarios.size === 0 && !this.llmDirty) return;
+    await mkdir(this.dir, { recursive: true });
+
+    for (const scenario of this.dirtyScenarios) {
+      const cassette = this.scenarios.get(scenario);
+      if (cassette) {
+        await writeFile(this.scenarioPath(scenario), JSON.stringify(cassette, null, 2), "utf-8");
+      }
+    }
+    this.dirtyScenarios.clear();
+
+    if (this.llmDirty && this.llm) {
+      await writeFile(join(this.dir, LLM_FILE), JSON.stringify(await this.llm, null, 2), "utf-8");
+      this.llmDirty = false;
+    }
+  }
+
+  private async loadScenario(scenario: string): Promise<ScenarioCassette | undefined> {
+    if (!this.scenarios.has(scenario)) {
+      const cassette = await readJson<ScenarioCassette>(this.scenarioPath(scenario));
+      if (!cassette) return undefined;
+      this.scenarios.set(scenario, cassette);
+    }
+    return this.scenarios.get(scenario);
+  }
+
+  private loadLLM(): Promise<Record<string, LLMRecording>> {
+    // Cache the promise so concurrent callers share one load
+    this.llm ??= readJson<Record<string, LLMRecording>>(join(this.dir, LLM_FILE)).then((data) => data ?? {});
+    return this.llm;
+  }
+}
+
+/** Stable key for an LLM request. Output schemas aren't serialisable, so they don't take part. */
+export function llmRequestKey(request: LLMRecording["request"]): string {
+  return createHash("sha256").update(JSON.stringify(request)).digest("hex").slice(0, 16);
+}
+
+async function readJson<T>(path: string): Promise<T | null> {
+  let content: string;
+  try {
+    content = await readFile(path, "utf-8");
+  } catch {
+    return null;
+  }
+  try {
+    return JSON.parse(content) as T;
+  } catch (e) {
+    throw new Error(`Cassette ${path} is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+function slugify(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 80);
+  // Different names can slugify alike; a short hash keeps their files apart
+  const hash = createHash("sha256").update(name).digest("hex").slice(0, 8);
+  return `${slug || "scenario"}-${hash}`;
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import { diffResults } from "./engine.js";
+import type { EfficiencyStats, LatencyStats, RunResult } from "../scenario/types.js";
+
+function result(scenario: string, passed: boolean, score: number, overrides: Partial<RunResult> = {}): RunResult {
+  return { scenario, passed, score, assertions: [], turns: [], duration: 100, ...overrides };
+}
+
+function efficiency(overrides: Partial<EfficiencyStats> = {}): EfficiencyStats {
+  return {
+    tokens: { input: 600, output: 400, total: 1000 },
+    tokenReports: 2,
+    cost: 0.01,
+    toolCalls: 2,
+    turns: 3,
+    ...overrides,
+  };
+}
+
+function latency(p50: number, p90: number, p99: number): LatencyStats {
+  return { count: 10, p50, p90, p99, max: p99 };
+}
+
+function diffOne(before: RunResult, after: RunResult, options?: Parameters<typeof diffResults>[4]) {
+  return diffResults("v1", [before], "v2", [after], options);
+}
+
+describe("diffResults", () => {
+  it("classifies quality changes and sorts regressions first", () => {
+    const report = diffResults(
+      "v1",
+      [result("steady", true, 1), result("broke", true, 1), result("fixed", false, 0.2), result("gone", true, 1)],
+      "v2",
+      [result("steady", true, 0.98), result("broke", false, 0.4), result("fixed", true, 0.9), result("new", true, 1)]
+    );
+
+    expect(report.scenarios.map((s) => [s.scenario, s.status])).toEqual([
+      ["broke", "regression"],
+      ["fixed", "improvement"],
+      ["steady", "stable"],
+      ["new", "added"],
+      ["gone", "removed"],
+    ]);
+    expect(report.summary).toMatchObject({ total: 5, regressions: 1, improvements: 1, stable: 1, added: 1, removed: 1 });
+    expect(report.hasRegressions).toBe(true);
+  });
+
+  it("counts a score drop past the threshold as a regression", () => {
+    expect(diffOne(result("s", true, 1), result("s", true, 0.9)).scenarios[0].status).toBe("regression");
+    expect(
+      diffOne(result("s", true, 1), result("s", true, 0.9), { regressionThreshold: 0.2 }).scenarios[0].status
+    ).toBe("stable");
+  });
+
+  it("keeps judge errors apart from regressions", () => {
+    const broken = result("s", false, 0, {
+      assertions: [{ type: "llmJudge", passed: false, status: "judge-error", error: "timeout" }],
+    });
+    const report = diffOne(result("s", true, 1), broken);
+
+    expect(report.scenarios[0].status).toBe("judge-error");
+    expect(report.hasRegressions).toBe(false);
+  });
+
+  describe("efficiency", () => {
+    it("marks a scenario whose quality held but that spent more as an efficiency regression", () => {
+      const report = diffOne(
+        result("s", true, 1, { efficiency: efficiency() }),
+        result("s", true, 1, { efficiency: efficiency({ tokens: { input: 900, output: 600, total: 1500 }, toolCalls: 5 }) })
+      );
+
+      const [scenario] = report.scenarios;
+      expect(scenario.status).toBe("efficiency-regression");
+      expect(scenario.efficiency).toEqual([
+        { metric: "tokens", before: 1000, after: 1500, change: 0.5 },
+        { metric: "toolCalls", before: 2, after: 5, change: 1.5 },
+      ]);
+      expect(report.summary.efficiencyRegressions).toBe(1);
+      expect(report.hasRegressions).toBe(true);
+    });
+
+    it("ignores growth within the threshold", () => {
+      const report = diffOne(
+        result("s", true, 1, { efficiency: efficiency() }),
+        result("s", true, 1, { efficiency: efficiency({ cost: 0.0115, turns: 3 }) })
+      );
+      expect(report.scenarios[0].status).toBe("stable");
+
+      const strict = diffOne(
+        result("s", true, 1, { efficiency: efficiency() }),
+        result("s", true, 1, { efficiency: efficiency({ cost: 0.0115 }) }),
+        { efficiencyThreshold: 0.1 }
+      );
+      expect(strict.scenarios[0].efficiency?.map((c) => c.metric)).toEqual(["cost"]);
+    });
+
+    it("reports growth from zero as 100%", () => {
+      const report = diffOne(
+        result("s", true, 1, { efficiency: efficiency({ toolCalls: 0 }) }),
+        result("s", true, 1, { efficiency: efficiency({ toolCalls: 1 }) })
+      );
+      expect(report.scenarios[0].efficiency).toEqual([{ metric: "toolCalls", before: 0, after: 1, change: 1 }]);
+    });
+
+    it("compares tokens only when both runs reported usage, and cost only when both were priced", () => {
+      const report = diffOne(
+        result("s", true, 1, { efficiency: efficiency({ tokenReports: 0, cost: undefined }) }),
+        result("s", true, 1, { efficiency: efficiency({ tokens: { input: 0, output: 0, total: 5000 }, cost: 1 }) })
+      );
+      expect(report.scenarios[0].status).toBe("stable");
+    });
+
+    it("lets a quality regression take precedence while still listing the efficiency changes", () => {
+      const report = diffOne(
+        result("s", true, 1, { efficiency: efficiency() }),
+        result("s", false, 0.5, { efficiency: efficiency({ turns: 6 }) })
+      );
+
+      expect(report.scenarios[0].status).toBe("regression");
+      expect(report.scenarios[0].efficiency?.map((c) => c.metric)).toEqual(["turns"]);
+      expect(report.summary.efficiencyRegressions).toBe(0);
+    });
+  });
+
+  describe("latency", () => {
+    it("marks a scenario that got slower past the ratio as a perf regression", () => {
+      const report = diffOne(
+        result("s", true, 1, { latency: latency(200, 400, 600) }),
+        result("s", true, 1, { latency: latency(250, 1000, 1200) })
+      );
+
+      const [scenario] = report.scenarios;
+      expect(scenario.status).toBe("perf-regression");
+      expect(scenario.latency).toEqual([
+        { percentile: "p90", before: 400, after: 1000, ratio: 2.5 },
+        { percentile: "p99", before: 600, after: 1200, ratio: 2 },
+      ]);
+      expect(report.summary.perfRegressions).toBe(1);
+      expect(report.hasRegressions).toBe(true);
+    });
+
+    it("ignores increases under 50ms, however large the ratio", () => {
+      const report = diffOne(
+        result("s", true, 1, { latency: latency(10, 20, 30) }),
+        result("s", true, 1, { latency: latency(40, 60, 70) })
+      );
+      expect(report.scenarios[0].status).toBe("stable");
+    });
+
+    it("uses the configured ratio", () => {
+      const before = result("s", true, 1, { latency: latency(200, 400, 600) });
+      const after = result("s", true, 1, { latency: latency(200, 700, 600) });
+
+      expect(diffOne(before, after).scenarios[0].status).toBe("perf-regression");
+      expect(diffOne(before, after, { latencyRatio: 2 }).scenarios[0].status).toBe("stable");
+    });
+
+    it("ranks an efficiency regression above a perf regression", () => {
+      const report = diffOne(
+        result("s", true, 1, { efficiency: efficiency(), latency: latency(200, 400, 600) }),
+        result("s", true, 1, { efficiency: efficiency({ turns: 6 }), latency: latency(200, 1000, 1200) })
+      );
+
+      expect(report.scenarios[0].status).toBe("efficiency-regression");
+      expect(report.scenarios[0].latency).toHaveLength(2);
+      expect(report.summary.perfRegressions).toBe(0);
+    });
+
+    it("skips the comparison when either run has no latency", () => {
+      const report = diffOne(result("s", true, 1), result("s", true, 1, { latency: latency(900, 900, 900) }));
+      expect(report.scenarios[0].status).toBe("stable");
+    });
+  });
+});
@@ -1,6 +1,43 @@
-import type { RunResult } from "../scenario/types.js";
+import type { EfficiencyStats, LatencyStats, RunResult } from "../scenario/types.js";
+import { failedOnJudgeErrors } from "../assert/scorer.js";
+
+/**
+ * "judge-error": the after run failed only because its judge broke, so it can't be compared.
+ * "efficiency-regression": quality held, but the agent spent more tokens, cost, tool calls or turns.
+ * "perf-regression": quality and efficiency held, but the agent answered slower.
+ */
+export type DiffStatus =
+  | "regression"
+  | "efficiency-regression"
+  | "perf-regression"
+  | "improvement"
+  | "stable"
+  | "judge-error"
+  | "added"
+  | "removed";
+
+export type EfficiencyMetric = "tokens" | "cost" | "toolCalls" | "turns";
+
+/** A metric that grew by more than the efficiency threshold */
+export interface EfficiencyChange {
+  metric: EfficiencyMetric;
+  before: number;
+  after: number;
+  /** after / before - 1 */
+  change: number;
+}
+
+export type LatencyPercentile = "p50" | "p90" | "p99";
 
-export type DiffStatus = "regression" | "improvement" | "stable" | "added" | "removed";
+/** A latency percentile that grew past the latency ratio */
+export interface LatencyChange {
+  percentile: LatencyPercentile;
+  /** ms */
+  before: number;
+  after: number;
+  /** after / before */
+  ratio: number;
+}
 
 export interface ScenarioDiff {
   scenario: string;
@@ -9,13 +46,20 @@ export interface ScenarioDiff {
   after?: { passed: boolean; score: number };
   scoreDelta?: number;
   passFlipped?: boolean;
+  /** Efficiency metrics that regressed, whatever the quality status */
+  efficiency?: EfficiencyChange[];
+  /** Latency percentiles that regressed, whatever the quality status */
+  latency?: LatencyChange[];
 }
 
 export interface DiffSummary {
   total: number;
   regressions: number;
+  efficiencyRegressions: number;
+  perfRegressions: number;
   improvements: number;
   stable: number;
+  judgeErrors: number;
   added: number;
   removed: number;
 }
@@ -30,8 +74,15 @@ export interface DiffReport {
 
 export interface DiffOptions {
   regressionThreshold?: number;
+  /** Relative growth in tokens, cost, tool calls or turns that counts as an efficiency regression. Default 0.2. */
+  efficiencyThreshold?: number;
+  /** How many times slower a p50, p90 or p99 agent latency may get before it counts as a perf regression. Default 1.5. */
+  latencyRatio?: number;
 }
 
+/** Latency changes smaller than this are noise, whatever their ratio */
+const MIN_LATENCY_INCREASE_MS = 50;
+
 export function diffResults(
   beforeVersion: string,
   beforeResults: RunResult[],
@@ -40,6 +91,8 @@ export function diffResults(
   options?: DiffOptions
 ): DiffReport {
   const threshold = options?.regressionThreshold ?? 0.05;
+  const efficiencyThreshold = options?.efficiencyThreshold ?? 0.2;
+  const latencyRatio = options?.latencyRatio ?? 1.5;
 
   const beforeMap = new Map<string, RunResult>();
   for (const r of beforeResults) beforeMap.set(r.scenario, r);
@@ -57,9 +110,17 @@ export function diffResults(
     if (before && after) {
       const scoreDelta = after.score - before.score;
       const passFlipped = before.passed !== after.passed;
+      const efficiency =
+        before.efficiency && after.efficiency
+          ? compareEfficiency(before.efficiency, after.efficiency, efficiencyThreshold)
+          : [];
+      const latency =
+        before.latency && after.latency ? compareLatency(before.latency, after.latency, latencyRatio) : [];
 
       let status: DiffStatus;
-      if (!after.passed && before.passed) {
+      if (failedOnJudgeErrors(after)) {
+        status = "judge-error";
+      } else if (!after.passed && before.passed) {
         status = "regression";
       } else if (after.passed && !before.passed) {
         status = "improvement";
@@ -67,6 +128,10 @@ export function diffResults(
         status = "regression";
       } else if (scoreDelta > threshold) {
         status = "improvement";
+      } else if (efficiency.length > 0) {
+        status = "efficiency-regression";
+      } else if (latency.length > 0) {
+        status = "perf-regression";
       } else {
         status = "stable";
       }
@@ -78,6 +143,8 @@ export function diffResults(
         after: { passed: after.passed, score: after.score },
         scoreDelta,
         passFlipped,
+        ...(efficiency.length > 0 ? { efficiency } : {}),
+        ...(latency.length > 0 ? { latency } : {}),
       });
     } else if (after && !before) {
       scenarios.push({
@@ -96,18 +163,24 @@ export function diffResults(
 
   const statusOrder: Record<DiffStatus, number> = {
     regression: 0,
-    improvement: 1,
-    stable: 2,
-    added: 3,
-    removed: 4,
+    "efficiency-regression": 1,
+    "perf-regression": 2,
+    improvement: 3,
+    stable: 4,
+    "judge-error": 5,
+    added: 6,
+    removed: 7,
   };
   scenarios.sort((a, b) => statusOrder[a.status] - statusOrder[b.status]);
 
   const summary: DiffSummary = {
     total: scenarios.length,
     regressions: scenarios.filter((s) => s.status === "regression").length,
+    efficiencyRegressions: scenarios.filter((s) => s.status === "efficiency-regression").length,
+    perfRegressions: scenarios.filter((s) => s.status === "perf-regression").length,
     improvements: scenarios.filter((s) => s.status === "improvement").length,
     stable: scenarios.filter((s) => s.status === "stable").length,
+    judgeErrors: scenarios.filter((s) => s.status === "judge-error").length,
     added: scenarios.filter((s) => s.status === "added").length,
     removed: scenarios.filter((s) => s.status === "removed").length,
   };
@@ -117,6 +190,38 @@ export function diffResults(
     afterVersion,
     scenarios,
     summary,
-    hasRegressions: summary.regressions > 0,
+    hasRegressions: summary.regressions + summary.efficiencyRegressions + summary.perfRegressions > 0,
   };
 }
+
+/** Metrics that grew by more than `threshold`. Cost is compared only when both runs were priced, tokens only when both reported usage. */
+function compareEfficiency(before: EfficiencyStats, after: EfficiencyStats, threshold: number): EfficiencyChange[] {
+  const pairs: [EfficiencyMetric, number | undefined, number | undefined][] = [
+    ["tokens", before.tokenReports > 0 ? before.tokens.total : undefined, after.tokenReports > 0 ? after.tokens.total : undefined],
+    ["cost", before.cost, after.cost],
+    ["toolCalls", before.toolCalls, after.toolCalls],
+    ["turns", before.turns, after.turns],
+  ];
+
+  const changes: EfficiencyChange[] = [];
+  for (const [metric, b, a] of pairs) {
+    if (b === undefined || a === undefined || a <= b) continue;
+    // From zero any growth is unbounded; report it as 100%
+    const change = b === 0 ? 1 : a / b - 1;
+    if (change > threshold) changes.push({ metric, before: b, after: a, change });
+  }
+  return changes;
+}
+
+/** Percentiles that grew past `ratio` times their old value and by at least MIN_LATENCY_INCREASE_MS */
+function compareLatency(before: LatencyStats, after: LatencyStats, ratio: number): LatencyChange[] {
+  const changes: LatencyChange[] = [];
+  for (const percentile of ["p50", "p90", "p99"] as const) {
+    const b = before[percentile];
+    const a = after[percentile];
+    if (a - b < MIN_LATENCY_INCREASE_MS) continue;
+    const grown = b === 0 ? Infinity : a / b;
+    if (grown > ratio) changes.push({ percentile, before: b, after: a, ratio: grown });
+  }
+  return changes;
+}
@@ -1,4 +1,4 @@
-import type { TraceStore } from "../store/trace.js";
+import type { RunMeta, TraceStore } from "../store/trace.js";
 import { diffResults, type DiffReport, type DiffOptions } from "./engine.js";
 
 export interface RegressionCheckResult {
@@ -6,6 +6,9 @@ export interface RegressionCheckResult {
   hasRegressions: boolean;
   regressionSummary: string;
   exitCode: number;
+  /** The stored runs that were compared, with their run-level usage and latency */
+  before: RunMeta;
+  after: RunMeta;
 }
 
 export function checkRegressions(
@@ -33,7 +36,7 @@ export function checkRegressions(
   );
 
   const regressionSummary = diff.hasRegressions
-    ? `${diff.summary.regressions} regression(s) detected comparing ${beforeVersion} to ${afterVersion}`
+    ? `${diff.summary.regressions} regression(s), ${diff.summary.efficiencyRegressions} efficiency regression(s) and ${diff.summary.perfRegressions} perf regression(s) detected comparing ${beforeVersion} to ${afterVersion}`
     : `No regressions comparing ${beforeVersion} to ${afterVersion}`;
 
   return {
@@ -41,5 +44,7 @@ export function checkRegressions(
     hasRegressions: diff.hasRegressions,
     regressionSummary,
     exitCode: diff.hasRegressions ? 1 : 0,
+    before: before.meta,
+    after: after.meta,
   };
 }
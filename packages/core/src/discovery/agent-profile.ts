@@ -77,7 +77,8 @@ export type AgentSource =
   | { type: "repo"; url: string; branch?: string }
   | { type: "local-dir"; path: string }
   | { type: "http"; url: string }
-  | { type: "openai-assistant"; assistantId: string };
+  | { type: "openai-assistant"; assistantId: string }
+  | { type: "custom"; module: string };
 
 const PROFILE_DIR = ".fabrik";
 const PROFILE_FILE = "agent-profile.json";
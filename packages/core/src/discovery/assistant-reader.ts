@@ -0,0 +1,127 @@
+import type { AgentConfig } from "../adapter/interface.js";
+import type { LLMProvider } from "../llm/provider.js";
+import type { AgentProfile, DiscoveredTool, DiscoveryEvidence } from "./agent-profile.js";
+import { AssistantsClient, type AssistantObject } from "../adapter/openai-assistant.js";
+import { z } from "zod";
+import { ASSISTANT_PROFILER_PROMPT } from "./prompts.js";
+
+const AssistantProfileSchema = z.object({
+  description: z.string(),
+  domain: z.string(),
+  knownConstraints: z.array(z.string()),
+  expectedTone: z.string(),
+  supportedLanguages: z.array(z.string()),
+});
+
+/**
+ * Build an AgentProfile from an OpenAI Assistant's configuration.
+ * Instructions, tools and model come straight from the API; the LLM only
+ * fills in domain, constraints and tone from the instructions.
+ */
+export async function readAssistantProfile(
+  assistantId: string,
+  llm: LLMProvider,
+  config?: AgentConfig
+): Promise<AgentProfile> {
+  const client = new AssistantsClient(
+    config?.type === "openai-assistant" ? { apiKey: config.apiKey, baseURL: config.baseURL } : {}
+  );
+  const assistant = await client.getAssistant(assistantId);
+
+  const tools = (assistant.tools ?? []).map(toDiscoveredTool);
+  const evidence: DiscoveryEvidence[] = [
+    {
+      type: "config",
+      source: `assistant ${assistant.id}`,
+      finding: `Model ${assistant.model ?? "unknown"} with ${tools.length} tool(s): ${tools.map((t) => t.name).join(", ") || "none"}`,
+      confidence: 1,
+    },
+  ];
+  if (assistant.instructions) {
+    evidence.push({
+      type: "config",
+      source: `assistant ${assistant.id} instructions`,
+      finding: assistant.instructions.slice(0, 1000),
+      confidence: 1,
+    });
+  }
+
+  const inferred = await inferFromInstructions(assistant, llm);
+
+  return {
+    discoveredAt: new Date().toISOString(),
+    source: { type: "openai-assistant", assistantId },
+    confidence: inferred ? 0.9 : 0.7,
+    name: assistant.name ?? assistant.id,
+    description: inferred?.description ?? assistant.description ?? "OpenAI Assistant",
+    domain: inferred?.domain ?? "unknown",
+    tools,
+    systemPrompt: assistant.instructions ?? undefined,
+    modelInfo: { provider: "openai", model: assistant.model },
+    knownConstraints: inferred?.knownConstraints ?? [],
+    expectedTone: inferred?.expectedTone ?? "professional",
+    supportedLanguages: inferred?.supportedLanguages ?? ["en"],
+    evidence,
+  };
+}
+
+async function inferFromInstructions(
+  assistant: AssistantObject,
+  llm: LLMProvider
+): Promise<z.infer<typeof AssistantProfileSchema> | null> {
+  try {
+    const response = await llm.generate({
+      messages: [
+        { role: "system", content: ASSISTANT_PROFILER_PROMPT },
+        {
+          role: "user",
+          content: `Assistant configuration:\n${JSON.stringify(
+            {
+              name: assistant.name,
+              description: assistant.description,
+              instructions: assistant.instructions,
+              model: assistant.model,
+              tools: assistant.tools,
+              metadata: assistant.metadata,
+            },
+            null,
+            2
+          )}`,
+        },
+      ],
+      outputSchema: AssistantProfileSchema,
+      temperature: 0,
+    });
+
+    if (response.parsed) {
+      const parsed = AssistantProfileSchema.safeParse(response.parsed);
+      if (parsed.success) return parsed.data;
+    }
+
+    let text = response.text.trim();
+    if (text.startsWith("```")) {
+      text = text.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
+    }
+    const parsed = AssistantProfileSchema.safeParse(JSON.parse(text));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    // The API data alone is still a usable profile
+    return null;
+  }
+}
+
+function toDiscoveredTool(tool: NonNullable<AssistantObject["tools"]>[number]): DiscoveredTool {
+  if (tool.type === "function" && tool.function) {
+    return {
+      name: tool.function.name,
+      description: tool.function.description ?? "",
+      parameters: tool.function.parameters,
+      source: "assistant tool definition",
+    };
+  }
+  return {
+    name: tool.type,
+    description: `Built-in OpenAI ${tool.type.replace(/_/g, " ")} tool`,
+    source: "assistant tool definition",
+  };
+}
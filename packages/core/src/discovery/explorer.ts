@@ -11,6 +11,7 @@ import { PROFILE_SYNTHESIZER_PROMPT } from "./prompts.js";
 import { rankFiles } from "./file-ranker.js";
 import { extractFromFile, type ExtractionResult } from "./extractors.js";
 import { probeEndpoint } from "./http-prober.js";
+import { readAssistantProfile } from "./assistant-reader.js";
 import { z } from "zod";
 
 /** Abstraction for reading files from sandbox or local filesystem */
@@ -74,7 +75,7 @@ export async function discoverAgent(opts: ExplorerOptions): Promise<AgentProfile
   const { source, llm, onProgress } = opts;
   const log = onProgress ?? (() => {});
 
-  if (source.type === "http") {
+  if (source.type === "http" || source.type === "custom") {
     return discoverFromHttp(opts, log);
   }
 
@@ -82,6 +83,15 @@ export async function discoverAgent(opts: ExplorerOptions): Promise<AgentProfile
     return discoverFromCodebase(opts, log);
   }
 
+  if (source.type === "openai-assistant") {
+    log("Reading assistant configuration...");
+    const profile = await readAssistantProfile(source.assistantId, llm, opts.agentConfig);
+    if (opts.description) {
+      profile.description = `${opts.description}\n\nDiscovered behavior: ${profile.description}`;
+    }
+    return profile;
+  }
+
   // Fallback: minimal profile from description
   return buildMinimalProfile(opts);
 }
@@ -94,11 +104,27 @@ async function discoverFromHttp(
     throw new Error("HTTP discovery requires an adapter and agent config");
   }
 
-  const url = opts.source.type === "http" ? opts.source.url : "";
-  log("Probing HTTP endpoint...");
+  if (opts.source.type === "custom") {
+    log("Probing custom adapter...");
+  } else {
+    log("Probing HTTP endpoint...");
+  }
+
+  const url =
+    opts.source.type === "http"
+      ? opts.source.url
+      : opts.source.type === "custom"
+        ? `custom adapter ${opts.source.module}`
+        : "";
 
   const { profile } = await probeEndpoint(opts.adapter, opts.agentConfig, opts.llm, url);
 
+  // Custom adapters run in-process — there is no endpoint to record
+  if (opts.source.type === "custom") {
+    profile.source = opts.source;
+    profile.endpoint = undefined;
+  }
+
   // Supplement with description hint if provided
   if (opts.description) {
     profile.description = `${opts.description}\n\nDiscovered behavior: ${profile.description}`;
@@ -123,3 +123,22 @@ Respond with a JSON object matching the AgentProfile schema:
 }
 
 Note: HTTP-only discovery has inherently lower confidence (typically 0.3-0.6) since you're inferring from behavior, not reading source code. Be honest about uncertainty.`;
+
+export const ASSISTANT_PROFILER_PROMPT = `You are analyzing an OpenAI Assistant's configuration. You receive its name, description, instructions (system prompt), model, and tool definitions exactly as returned by the Assistants API.
+
+Based on this configuration, infer:
+- What the assistant does and which business domain it serves
+- Constraints and guardrails stated in the instructions (quote them closely)
+- The tone and personality the instructions ask for
+- Which languages it supports
+
+Respond with a JSON object:
+{
+  "description": "2-3 sentence description of what this assistant does",
+  "domain": "customer-support",
+  "knownConstraints": ["Never share account numbers", "Escalate billing disputes to a human"],
+  "expectedTone": "friendly and concise",
+  "supportedLanguages": ["en"]
+}
+
+Only report constraints that the instructions actually state. Don't invent behavior.`;
@@ -1,6 +1,7 @@
 import { mkdir, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import type { LLMProvider } from "../llm/provider.js";
+import type { UsageTracker } from "../llm/usage.js";
 import type { AgentProfile } from "../discovery/agent-profile.js";
 import { planTests, type TestPlan, type TestPlanCategory, type TestPlanScenario } from "./planner.js";
 import { writeTestFile, type GeneratedTest } from "./writer.js";
@@ -29,13 +30,21 @@ export interface GeneratedFile {
 export async function generateTests(
   profile: AgentProfile,
   llm: LLMProvider,
-  opts: { count?: number; categories?: string[]; outputDir: string; onProgress?: (msg: string) => void }
+  opts: {
+    count?: number;
+    categories?: string[];
+    outputDir: string;
+    onProgress?: (msg: string) => void;
+    /** Record token usage for planning and writing; once its budget is spent, no further files are written */
+    usage?: UsageTracker;
+  }
 ): Promise<GeneratedFile[]> {
   const log = opts.onProgress ?? (() => {});
+  const usage = opts.usage;
 
   // Step 1: Plan tests based on profile
   log("Planning test scenarios...");
-  const plan = await planTests(profile, llm, {
+  const plan = await planTests(profile, usage ? usage.wrap(llm, { phase: "planning" }) : llm, {
     count: opts.count,
     categories: opts.categories,
   });
@@ -55,9 +64,14 @@ export async function generateTests(
   // Step 3: Generate code for each scenario
   for (let i = 0; i < allScenarios.length; i++) {
     const { category, scenario } = allScenarios[i];
+    if (usage?.exceeded) {
+      log(`LLM budget exceeded — skipping the remaining ${allScenarios.length - i} test files.`);
+      break;
+    }
     log(`  Writing ${i + 1}/${allScenarios.length}: ${scenario.name}`);
 
-    const test = await writeTestFile(profile, category, scenario, llm);
+    const writer = usage ? usage.wrap(llm, { phase: "writing", scenario: scenario.name }) : llm;
+    const test = await writeTestFile(profile, category, scenario, writer);
     const filePath = join(opts.outputDir, test.fileName);
     await writeFile(filePath, test.code, "utf-8");
 
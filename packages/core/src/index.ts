@@ -8,15 +8,40 @@ export type {
   TurnRecord,
   Scenario,
   ScenarioFn,
+  ScenarioOptions,
   ScenarioContext,
   AgentHandle,
   RunResult,
+  SampleResult,
+  SampleStats,
+  EfficiencyStats,
+  LatencyStats,
+  Flakiness,
+  SimulateOptions,
+  SimulationResult,
+  SimulationStopReason,
 } from "./scenario/types.js";
+export { computeEfficiency } from "./scenario/efficiency.js";
+export { percentile, latencyStats, runLatency } from "./scenario/latency.js";
 
 // Assertion API
 export { assert } from "./assert/api.js";
-export type { FabrikAssert } from "./assert/api.js";
-export type { AssertionResult } from "./assert/types.js";
+export type { FabrikAssert, ConversationAssert } from "./assert/api.js";
+export type { AssertionResult, AssertOptions, AssertionSeverity, JudgeVote, PanelVerdict } from "./assert/types.js";
+export type { ToolMatcher } from "./assert/tool-matchers.js";
+
+// Judges
+export type { Judge, JudgeCall, JudgeVerdict } from "./assert/llm-judge.js";
+export { calibrateJudges, validateCalibrationDataset, cohensKappa } from "./assert/calibrate.js";
+export type {
+  CalibrationExample,
+  CalibrationType,
+  CalibrationMetrics,
+  CalibrationOutcome,
+  CalibrationReport,
+  CalibrateOptions,
+  ConfusionMatrix,
+} from "./assert/calibrate.js";
 
 // Agent Adapter
 export { AgentResponse } from "./adapter/interface.js";
@@ -26,17 +51,56 @@ export type {
   ConversationContext,
   ToolCall,
   TokenUsage,
+  StreamMetrics,
+  HttpSessionConfig,
+  HttpRetryConfig,
+  AgentAuthConfig,
 } from "./adapter/interface.js";
 export { HttpAdapter } from "./adapter/http.js";
+export { createAgentAuth } from "./adapter/http-auth.js";
+export type { AgentAuth, AuthRequest } from "./adapter/http-auth.js";
+export { registerResponseShape, getResponseShape } from "./adapter/response-shapes.js";
+export type { ResponseShape } from "./adapter/response-shapes.js";
+export { SubprocessAdapter } from "./adapter/subprocess.js";
+export { loadCustomAdapter } from "./adapter/custom.js";
+export { OpenAIAssistantAdapter } from "./adapter/openai-assistant.js";
+export { WebSocketAdapter } from "./adapter/websocket.js";
+
+// Record / replay
+export { CassetteStore, DEFAULT_CASSETTE_DIR } from "./cassette/store.js";
+export type { CassetteMode, ScenarioCassette, AgentTurnRecording, LLMRecording } from "./cassette/store.js";
+export { CassetteAdapter } from "./cassette/adapter.js";
+export { CassetteLLMProvider } from "./cassette/llm.js";
+
+// Mock agent
+export { startMockAgent } from "./mock/server.js";
+export type { MockAgent, MockAgentOptions, MockRequestLog } from "./mock/server.js";
+export { validateMockScript } from "./mock/script.js";
+export type { MockScript, MockRule, MockReply, MockRequest, MockToolCall } from "./mock/script.js";
 
 // LLM Provider
-export type { LLMProvider, LLMResponse } from "./llm/provider.js";
+export type { LLMProvider, LLMResponse, LLMCallReport } from "./llm/provider.js";
 export { OpenAIProvider } from "./llm/openai.js";
 export type { OpenAIProviderConfig } from "./llm/openai.js";
 export { AnthropicProvider } from "./llm/anthropic.js";
 export type { AnthropicProviderConfig } from "./llm/anthropic.js";
 export { ChatGPTProvider } from "./llm/chatgpt.js";
 export type { ChatGPTProviderConfig } from "./llm/chatgpt.js";
+export { OllamaProvider } from "./llm/ollama.js";
+export type { OllamaProviderConfig } from "./llm/ollama.js";
+export { loadCustomLlmProvider } from "./llm/custom.js";
+export { FallbackLLMProvider, Semaphore, classifyLlmError, describeLlmCall } from "./llm/fallback.js";
+export type { FallbackOptions, LLMErrorKind } from "./llm/fallback.js";
+export { UsageTracker, formatUsage, formatCost, parseBudget } from "./llm/usage.js";
+export type {
+  UsagePhase,
+  ModelPrice,
+  PriceTable,
+  UsageBudget,
+  UsageTotals,
+  UsageReport,
+  UsageTrackerOptions,
+} from "./llm/usage.js";
 
 // Discovery
 export { readAgentProfile, writeAgentProfile } from "./discovery/agent-profile.js";
@@ -53,6 +117,7 @@ export type { ExplorerOptions, FileReader } from "./discovery/explorer.js";
 export { rankFiles } from "./discovery/file-ranker.js";
 export { extractFromFile } from "./discovery/extractors.js";
 export { probeEndpoint } from "./discovery/http-prober.js";
+export { readAssistantProfile } from "./discovery/assistant-reader.js";
 
 // Runner
 export { ScenarioRunner } from "./runner.js";
@@ -64,7 +129,7 @@ export { validateScenario } from "./scenario/validator.js";
 export type { ValidationResult } from "./scenario/validator.js";
 
 // Reporter
-export { printTerminalReport } from "./report/terminal.js";
+export { printTerminalReport, printUsage } from "./report/terminal.js";
 export { generateJsonReport } from "./report/json.js";
 export type { JsonReport } from "./report/json.js";
 export { generateHtmlReport } from "./report/html.js";
@@ -72,10 +137,22 @@ export { generateHtmlReport } from "./report/html.js";
 // Store
 export type { TraceStore, RunMeta, StoredRun } from "./store/trace.js";
 export { SqliteTraceStore } from "./store/sqlite.js";
+export { JudgeCache } from "./store/judge-cache.js";
+export type { JudgeCacheOptions, JudgeCacheKey, JudgeCacheStats } from "./store/judge-cache.js";
 
 // Diff
 export { diffResults } from "./diff/engine.js";
-export type { DiffReport, ScenarioDiff, DiffStatus, DiffSummary, DiffOptions } from "./diff/engine.js";
+export type {
+  DiffReport,
+  ScenarioDiff,
+  DiffStatus,
+  DiffSummary,
+  DiffOptions,
+  EfficiencyChange,
+  EfficiencyMetric,
+  LatencyChange,
+  LatencyPercentile,
+} from "./diff/engine.js";
 export { checkRegressions } from "./diff/regression.js";
 export type { RegressionCheckResult } from "./diff/regression.js";
 
@@ -7,8 +7,9 @@ export interface AnthropicProviderConfig {
 }
 
 export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic";
+  readonly model: string;
   private apiKey: string;
-  private model: string;
 
   constructor(config: AnthropicProviderConfig) {
     this.apiKey = config.apiKey;
@@ -25,7 +25,8 @@ interface CodexAuthFile {
 }
 
 export class ChatGPTProvider implements LLMProvider {
-  private model: string;
+  readonly name = "chatgpt";
+  readonly model: string;
   private authPath: string;
   private accessToken?: string;
 
@@ -0,0 +1,54 @@
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { LLMProvider } from "./provider.js";
+
+/**
+ * Load a user-supplied LLMProvider for `llm.provider: "custom"`.
+ *
+ * The module's default export may be a provider instance, a provider class,
+ * or a factory function returning a provider (sync or async). The factory
+ * receives the `options` from the config. Relative paths are resolved
+ * against `cwd`.
+ */
+export async function loadCustomLlmProvider(
+  modulePath: string,
+  options?: Record<string, unknown>,
+  cwd: string = process.cwd()
+): Promise<LLMProvider> {
+  const absPath = resolve(cwd, modulePath);
+
+  let mod: Record<string, unknown>;
+  try {
+    mod = await import(pathToFileURL(absPath).href);
+  } catch (e) {
+    throw new Error(
+      `Failed to load custom LLM provider module "${modulePath}": ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+
+  let exported = mod.default;
+  if (exported === undefined) {
+    throw new Error(
+      `Custom LLM provider module "${modulePath}" has no default export. Export an LLMProvider instance, class, or factory function as default.`
+    );
+  }
+
+  if (typeof exported === "function") {
+    const ctor = exported as new (options?: Record<string, unknown>) => unknown;
+    exported = isProvider(ctor.prototype)
+      ? new ctor(options)
+      : await (exported as (options?: Record<string, unknown>) => unknown)(options);
+  }
+
+  if (!isProvider(exported)) {
+    throw new Error(
+      `Custom LLM provider module "${modulePath}" does not implement LLMProvider — missing method: generate`
+    );
+  }
+
+  return exported;
+}
+
+function isProvider(obj: unknown): obj is LLMProvider {
+  return typeof obj === "object" && obj !== null && typeof (obj as Record<string, unknown>).generate === "function";
+}
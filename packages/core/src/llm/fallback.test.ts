@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { classifyLlmError, describeLlmCall, FallbackLLMProvider, Semaphore } from "./fallback.js";
+import type { LLMProvider } from "./provider.js";
+
+/** Fails with the given errors in turn, then answers */
+function scripted(name: string, model: string, errors: string[]) {
+  const provider = {
+    name,
+    model,
+    calls: 0,
+    async generate() {
+      const error = errors[provider.calls++];
+      if (error !== undefined) throw new Error(error);
+      return { text: `from ${name}`, tokenUsage: { input: 1, output: 1, total: 2 } };
+    },
+  };
+  return provider satisfies LLMProvider;
+}
+
+const prompt = { messages: [{ role: "user" as const, content: "hi" }] };
+const fast = { baseDelayMs: 1, maxDelayMs: 1 };
+
+describe("classifyLlmError", () => {
+  it.each([
+    ["OpenAI API error 401: invalid key", "auth"],
+    ["Anthropic API key required. Set ANTHROPIC_API_KEY", "auth"],
+    ["ChatGPT session token has expired", "auth"],
+    ["OpenAI API error 429: Rate limit reached", "rate-limit"],
+    ["Anthropic: rate_limit_error", "rate-limit"],
+    ["OpenAI API error 503: unavailable", "server"],
+    ["Anthropic API is overloaded", "server"],
+    ["fetch failed", "network"],
+    ["connect ECONNREFUSED 127.0.0.1:11434", "network"],
+  ])("classifies %j as %s", (message, kind) => {
+    expect(classifyLlmError(new Error(message))).toBe(kind);
+  });
+
+  it("leaves other failures unclassified", () => {
+    expect(classifyLlmError(new Error("OpenAI API error 400: bad request"))).toBeUndefined();
+    expect(classifyLlmError(new Error("LLM budget exceeded: 3,000 tokens of 2,000 tokens"))).toBeUndefined();
+    expect(classifyLlmError("plain string")).toBeUndefined();
+  });
+});
+
+describe("FallbackLLMProvider", () => {
+  it("retries transient failures on the same provider", async () => {
+    const primary = scripted("openai", "gpt-4o", ["OpenAI API error 429: slow down", "OpenAI API error 502: bad gateway"]);
+    const chain = new FallbackLLMProvider([primary], { retries: 2, ...fast });
+
+    const response = await chain.generate(prompt);
+
+    expect(response.text).toBe("from openai");
+    expect(primary.calls).toBe(3);
+    expect(response.call?.failures).toHaveLength(2);
+    expect(describeLlmCall(response)).toMatch(/^LLM call answered by openai:gpt-4o after 2 failed attempts/);
+  });
+
+  it("falls through on auth failures and skips the rejected provider afterwards", async () => {
+    const primary = scripted("openai", "gpt-4o", ["OpenAI API error 401: invalid key"]);
+    const backup = scripted("anthropic", "claude", []);
+    const chain = new FallbackLLMProvider([primary, backup], fast);
+
+    expect((await chain.generate(prompt)).call?.provider).toBe("anthropic:claude");
+    const second = await chain.generate(prompt);
+
+    expect(primary.calls).toBe(1);
+    expect(second.call?.failures).toEqual(["openai:gpt-4o: skipped, its credentials were rejected earlier"]);
+  });
+
+  it("moves on once the retries are used", async () => {
+    const primary = scripted("openai", "gpt-4o", ["fetch failed", "fetch failed"]);
+    const backup = scripted("ollama", "llama3", []);
+    const chain = new FallbackLLMProvider([primary, backup], { retries: 1, ...fast });
+
+    expect((await chain.generate(prompt)).text).toBe("from ollama");
+    expect(primary.calls).toBe(2);
+  });
+
+  it("throws unclassified errors at once", async () => {
+    const primary = scripted("openai", "gpt-4o", ["OpenAI API error 400: bad request"]);
+    const backup = scripted("anthropic", "claude", []);
+    const chain = new FallbackLLMProvider([primary, backup], fast);
+
+    await expect(chain.generate(prompt)).rejects.toThrow("OpenAI API error 400: bad request");
+    expect(backup.calls).toBe(0);
+  });
+
+  it("reports every failure when the whole chain fails", async () => {
+    const chain = new FallbackLLMProvider(
+      [scripted("openai", "gpt-4o", ["OpenAI API error 401: no"]), scripted("anthropic", "claude", ["overloaded"])],
+      { retries: 0, ...fast }
+    );
+
+    await expect(chain.generate(prompt)).rejects.toThrow(
+      "Every LLM provider failed: openai:gpt-4o: OpenAI API error 401: no; anthropic:claude: overloaded"
+    );
+  });
+
+  it("names a chain after all its providers so the judge cache keeps chains apart", () => {
+    const chain = new FallbackLLMProvider([scripted("openai", "gpt-4o", []), scripted("anthropic", "claude", [])]);
+    expect(chain.name).toBe("openai:gpt-4o > anthropic:claude");
+    expect(chain.model).toBe("gpt-4o");
+  });
+});
+
+describe("Semaphore", () => {
+  it("caps concurrent runs", async () => {
+    const semaphore = new Semaphore(2);
+    let active = 0;
+    let peak = 0;
+    const task = () =>
+      semaphore.run(async () => {
+        peak = Math.max(peak, ++active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+      });
+
+    await Promise.all([task(), task(), task(), task(), task()]);
+    expect(peak).toBe(2);
+  });
+
+  it("rejects a limit below one", () => {
+    expect(() => new Semaphore(0)).toThrow("Concurrency limit must be at least 1, got 0");
+  });
+});
@@ -0,0 +1,153 @@
+import type { LLMProvider, LLMResponse } from "./provider.js";
+import { backoffDelay, sleep, type RetryPolicy } from "../adapter/http-retry.js";
+
+export type LLMErrorKind = "auth" | "rate-limit" | "server" | "network";
+
+/**
+ * Providers throw plain Errors ("OpenAI API error 429: ..."), so failures are
+ * told apart by message. Anything unrecognized (a bad request, a budget stop)
+ * is not worth retrying or falling back on.
+ */
+export function classifyLlmError(error: unknown): LLMErrorKind | undefined {
+  const message = error instanceof Error ? error.message : String(error);
+  if (/\b(401|403)\b|session (token )?(has )?expired|api key required|no chatgpt session token|no access_token/i.test(message)) {
+    return "auth";
+  }
+  if (/\b429\b|rate.?limit/i.test(message)) return "rate-limit";
+  if (/error 5\d\d\b|\boverloaded\b/i.test(message)) return "server";
+  if (/fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket hang up|could not reach/i.test(message)) return "network";
+  return undefined;
+}
+
+/** Caps the LLM calls in flight. One is shared by every provider in a run, so parallel scenarios, panels and discovery draw from the same slots. */
+export class Semaphore {
+  private available: number;
+  private waiting: (() => void)[] = [];
+
+  constructor(permits: number) {
+    if (!(permits >= 1)) {
+      throw new Error(`Concurrency limit must be at least 1, got ${permits}`);
+    }
+    this.available = Math.floor(permits);
+  }
+
+  async acquire(): Promise<void> {
+    if (this.available > 0) {
+      this.available--;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.available++;
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      this.release();
+    }
+  }
+}
+
+export interface FallbackOptions {
+  /** Retries of rate-limited, 5xx and network failures on each provider before moving on. Default 2. */
+  retries?: number;
+  /** First backoff delay, doubled on each retry with jitter. Default 1000ms. */
+  baseDelayMs?: number;
+  /** Default 20000ms */
+  maxDelayMs?: number;
+  semaphore?: Semaphore;
+}
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 20000;
+const MAX_FAILURE_LENGTH = 200;
+
+/**
+ * Tries an ordered list of providers. Transient failures are retried with
+ * backoff on the same provider; auth failures, and transient ones that
+ * outlast the retries, fall through to the next provider. A provider that
+ * failed auth is not tried again. Other errors are thrown at once. The
+ * response's `call` records what happened.
+ */
+export class FallbackLLMProvider implements LLMProvider {
+  readonly name?: string;
+  readonly model?: string;
+  private providers: LLMProvider[];
+  private policy: RetryPolicy;
+  private semaphore?: Semaphore;
+  /** Providers whose credentials were rejected; they are skipped for the rest of the run */
+  private rejected = new Set<LLMProvider>();
+
+  constructor(providers: LLMProvider[], options?: FallbackOptions) {
+    if (providers.length === 0) {
+      throw new Error("FallbackLLMProvider needs at least one provider");
+    }
+    this.providers = providers;
+    // The judge cache keys on these, so a chain's verdicts are cached apart from its first provider's
+    const described = providers.every((p) => p.name && p.model);
+    this.name =
+      providers.length === 1 ? providers[0].name : described ? providers.map(describeProvider).join(" > ") : undefined;
+    this.model = providers.length === 1 || described ? providers[0].model : undefined;
+    this.policy = {
+      maxRetries: options?.retries ?? DEFAULT_RETRIES,
+      statusCodes: new Set(),
+      baseDelayMs: options?.baseDelayMs ?? DEFAULT_BASE_DELAY_MS,
+      maxDelayMs: options?.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    };
+    this.semaphore = options?.semaphore;
+  }
+
+  async generate(params: Parameters<LLMProvider["generate"]>[0]): Promise<LLMResponse> {
+    const failures: string[] = [];
+
+    for (const provider of this.providers) {
+      const label = describeProvider(provider);
+      if (this.rejected.has(provider)) {
+        failures.push(`${label}: skipped, its credentials were rejected earlier`);
+        continue;
+      }
+      for (let retry = 0; ; retry++) {
+        try {
+          const response = this.semaphore
+            ? await this.semaphore.run(() => provider.generate(params))
+            : await provider.generate(params);
+          return { ...response, call: { provider: label, model: provider.model, failures } };
+        } catch (e) {
+          const kind = classifyLlmError(e);
+          if (!kind) throw e;
+          failures.push(`${label}: ${truncate(e instanceof Error ? e.message : String(e))}`);
+          if (kind === "auth") this.rejected.add(provider);
+          if (kind === "auth" || retry >= this.policy.maxRetries) break;
+          await sleep(backoffDelay(this.policy, retry));
+        }
+      }
+    }
+
+    throw new Error(`Every LLM provider failed: ${failures.join("; ")}`);
+  }
+}
+
+/** "LLM call answered by anthropic:claude-sonnet after 2 failed attempts: ..." — empty when the first attempt succeeded */
+export function describeLlmCall(response: LLMResponse): string {
+  if (!response.call || response.call.failures.length === 0) return "";
+  const { provider, failures } = response.call;
+  return `LLM call answered by ${provider} after ${failures.length} failed attempt${failures.length === 1 ? "" : "s"}: ${failures.join("; ")}`;
+}
+
+function describeProvider(provider: LLMProvider): string {
+  if (!provider.name) return provider.model ?? "llm";
+  return provider.model ? `${provider.name}:${provider.model}` : provider.name;
+}
+
+function truncate(text: string): string {
+  const line = text.split("\n")[0];
+  return line.length <= MAX_FAILURE_LENGTH ? line : line.slice(0, MAX_FAILURE_LENGTH - 1) + "…";
+}
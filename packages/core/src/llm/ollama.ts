@@ -0,0 +1,103 @@
+import type { LLMProvider, LLMResponse } from "./provider.js";
+import type { ZodType } from "zod";
+
+export interface OllamaProviderConfig {
+  /** Model to use, as pulled with `ollama pull`. Defaults to "llama3.1" */
+  model?: string;
+  /** Ollama server. Defaults to OLLAMA_HOST, then http://localhost:11434 */
+  baseURL?: string;
+  /** How long Ollama keeps the model loaded after a request, e.g. "10m". Ollama's default when unset. */
+  keepAlive?: string;
+}
+
+/** Talks to a local Ollama server, so prompts and transcripts never leave the machine */
+export class OllamaProvider implements LLMProvider {
+  readonly name = "ollama";
+  readonly model: string;
+  private baseURL: string;
+  private keepAlive?: string;
+
+  constructor(config?: OllamaProviderConfig) {
+    this.model = config?.model ?? "llama3.1";
+    this.baseURL = (config?.baseURL ?? process.env.OLLAMA_HOST ?? "http://localhost:11434").replace(/\/+$/, "");
+    if (!/^https?:\/\//.test(this.baseURL)) this.baseURL = `http://${this.baseURL}`;
+    this.keepAlive = config?.keepAlive;
+  }
+
+  async generate(params: {
+    messages: { role: "system" | "user" | "assistant"; content: string }[];
+    outputSchema?: ZodType;
+    temperature?: number;
+    maxTokens?: number;
+  }): Promise<LLMResponse> {
+    const options: Record<string, unknown> = {
+      temperature: params.temperature ?? 0.7,
+    };
+    if (params.maxTokens) {
+      options.num_predict = params.maxTokens;
+    }
+
+    const body: Record<string, unknown> = {
+      model: this.model,
+      messages: params.messages,
+      stream: false,
+      options,
+    };
+
+    // JSON mode constrains decoding to valid JSON; the prompt still describes the fields
+    if (params.outputSchema) {
+      body.format = "json";
+    }
+    if (this.keepAlive) {
+      body.keep_alive = this.keepAlive;
+    }
+
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseURL}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+    } catch (e) {
+      throw new Error(
+        `Could not reach Ollama at ${this.baseURL} (${e instanceof Error ? e.message : String(e)}). Is \`ollama serve\` running?`
+      );
+    }
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      if (res.status === 404) {
+        throw new Error(`Ollama model "${this.model}" not found. Run \`ollama pull ${this.model}\`.\n${errorText}`);
+      }
+      throw new Error(`Ollama API error ${res.status}: ${errorText}`);
+    }
+
+    const data = (await res.json()) as {
+      message?: { content: string };
+      prompt_eval_count?: number;
+      eval_count?: number;
+    };
+
+    const text = data.message?.content ?? "";
+
+    let parsed: unknown;
+    if (params.outputSchema) {
+      try {
+        const json = JSON.parse(text);
+        const result = params.outputSchema.safeParse(json);
+        parsed = result.success ? result.data : json;
+      } catch {
+        // If parsing fails, leave parsed undefined
+      }
+    }
+
+    const input = data.prompt_eval_count ?? 0;
+    const output = data.eval_count ?? 0;
+    return {
+      text,
+      parsed,
+      tokenUsage: { input, output, total: input + output },
+    };
+  }
+}
@@ -8,14 +8,17 @@ export interface OpenAIProviderConfig {
 }
 
 export class OpenAIProvider implements LLMProvider {
+  /** "openai", or "openai@<baseURL>" for other OpenAI-compatible servers */
+  readonly name: string;
+  readonly model: string;
   private apiKey: string;
-  private model: string;
   private baseURL: string;
 
   constructor(config: OpenAIProviderConfig) {
     this.apiKey = config.apiKey;
     this.model = config.model ?? "gpt-5.3-codex";
     this.baseURL = config.baseURL ?? "https://api.openai.com/v1";
+    this.name = config.baseURL ? `openai@${config.baseURL}` : "openai";
   }
 
   async generate(params: {
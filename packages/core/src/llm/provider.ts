@@ -1,6 +1,9 @@
 import type { ZodType } from "zod";
 
 export interface LLMProvider {
+  /** Provider and model, when known. Judge results are only cached for providers that set both. */
+  readonly name?: string;
+  readonly model?: string;
   generate(params: {
     messages: { role: "system" | "user" | "assistant"; content: string }[];
     outputSchema?: ZodType;
@@ -13,4 +16,13 @@ export interface LLMResponse {
   text: string;
   parsed?: unknown;
   tokenUsage: { input: number; output: number; total: number };
+  /** Set by FallbackLLMProvider: which provider answered, and the attempts that failed first */
+  call?: LLMCallReport;
+}
+
+export interface LLMCallReport {
+  provider: string;
+  model?: string;
+  /** "openai: OpenAI API error 429: ...", oldest first */
+  failures: string[];
 }
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { LLMProvider } from "./provider.js";
+import { formatCost, formatUsage, parseBudget, UsageTracker } from "./usage.js";
+
+function fakeProvider(model: string | undefined, tokens = { input: 1000, output: 500 }) {
+  const provider = {
+    model,
+    calls: 0,
+    async generate() {
+      provider.calls++;
+      return { text: "ok", tokenUsage: { ...tokens, total: tokens.input + tokens.output } };
+    },
+  };
+  return provider satisfies LLMProvider;
+}
+
+const prompt = { messages: [{ role: "user" as const, content: "hi" }] };
+
+describe("parseBudget", () => {
+  it("reads USD amounts", () => {
+    expect(parseBudget("2.50")).toEqual({ usd: 2.5 });
+    expect(parseBudget(" $5 ")).toEqual({ usd: 5 });
+  });
+
+  it("reads token counts with k and m suffixes", () => {
+    expect(parseBudget("200000 tokens")).toEqual({ tokens: 200000 });
+    expect(parseBudget("500k tokens")).toEqual({ tokens: 500000 });
+    expect(parseBudget("1.5M token")).toEqual({ tokens: 1500000 });
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parseBudget("five dollars")).toThrow('Invalid budget "five dollars"');
+    expect(() => parseBudget("500k")).toThrow(/Invalid budget/);
+  });
+});
+
+describe("UsageTracker", () => {
+  it("adds up calls per phase, scenario and model, pricing known models", async () => {
+    const tracker = new UsageTracker({ prices: { "gpt-4o": { input: 2.5, output: 10 } } });
+    const judge = tracker.wrap(fakeProvider("gpt-4o"), { phase: "judging", scenario: "refund" });
+    const writer = tracker.wrap(fakeProvider("local"), { phase: "writing" });
+
+    await judge.generate(prompt);
+    await judge.generate(prompt);
+    await writer.generate(prompt);
+
+    const report = tracker.report();
+    expect(report.total).toEqual({ calls: 3, input: 3000, output: 1500, total: 4500, cost: 0.015, unpriced: 1 });
+    expect(report.byPhase.judging).toMatchObject({ calls: 2, cost: 0.015, unpriced: 0 });
+    expect(report.byPhase.writing).toMatchObject({ calls: 1, cost: 0, unpriced: 1 });
+    expect(Object.keys(report.byScenario)).toEqual(["refund"]);
+    expect(report.byModel.local.calls).toBe(1);
+    expect(report.budgetExceeded).toBe(false);
+  });
+
+  it("files calls from providers without a model under unknown", () => {
+    const tracker = new UsageTracker();
+    tracker.record({ input: 1, output: 1, total: 2 }, { phase: "discovery" });
+    expect(tracker.report().byModel.unknown.calls).toBe(1);
+  });
+
+  it("refuses new calls once the token budget is spent", async () => {
+    const tracker = new UsageTracker({ budget: { tokens: 2000 } });
+    const inner = fakeProvider("m");
+    const provider = tracker.wrap(inner, { phase: "judging" });
+
+    await provider.generate(prompt);
+    expect(tracker.exceeded).toBe(false);
+    await provider.generate(prompt);
+    expect(tracker.exceeded).toBe(true);
+
+    await expect(provider.generate(prompt)).rejects.toThrow("LLM budget exceeded: 3,000 tokens of 2,000 tokens");
+    expect(inner.calls).toBe(2);
+    expect(tracker.report()).toMatchObject({ budget: { tokens: 2000 }, budgetExceeded: true });
+  });
+
+  it("enforces a USD budget against the priced cost", async () => {
+    const tracker = new UsageTracker({ prices: { m: { input: 1000, output: 0 } }, budget: { usd: 1 } });
+    const provider = tracker.wrap(fakeProvider("m"), { phase: "judging" });
+
+    await provider.generate(prompt);
+    expect(() => tracker.checkBudget()).toThrow("LLM budget exceeded: 1,500 tokens, $1.00 of $1.00");
+  });
+
+  it("returns a report that later calls don't change", async () => {
+    const tracker = new UsageTracker();
+    const provider = tracker.wrap(fakeProvider("m"), { phase: "judging" });
+    await provider.generate(prompt);
+
+    const report = tracker.report();
+    await provider.generate(prompt);
+    expect(report.total.calls).toBe(1);
+  });
+});
+
+describe("formatting", () => {
+  it("leaves the cost out when nothing was priced", () => {
+    const totals = { calls: 2, input: 10, output: 5, total: 12345, cost: 0, unpriced: 2 };
+    expect(formatUsage(totals)).toBe("12,345 tokens");
+    expect(formatUsage({ ...totals, cost: 0.42, unpriced: 1 })).toBe("12,345 tokens, $0.42");
+  });
+
+  it("shows sub-cent costs with four decimals", () => {
+    expect(formatCost(0.0042)).toBe("$0.0042");
+    expect(formatCost(0)).toBe("$0.00");
+    expect(formatCost(3.456)).toBe("$3.46");
+  });
+});
@@ -0,0 +1,193 @@
+import type { LLMProvider, LLMResponse } from "./provider.js";
+
+/** Where an LLM call was made: profile discovery, test planning and writing, judging assertions, or simulated users */
+export type UsagePhase = "discovery" | "planning" | "writing" | "judging" | "simulation";
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** Prices keyed by model name, e.g. { "gpt-4o": { input: 2.5, output: 10 } } */
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageBudget {
+  /** Stop once the estimated cost reaches this many USD */
+  usd?: number;
+  /** Stop once this many tokens have been used */
+  tokens?: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  input: number;
+  output: number;
+  total: number;
+  /** Estimated USD, counting only calls whose model is in the price table */
+  cost: number;
+  /** Calls whose model has no price, so their cost is missing from `cost` */
+  unpriced: number;
+}
+
+export interface UsageReport {
+  total: UsageTotals;
+  byPhase: Partial<Record<UsagePhase, UsageTotals>>;
+  byScenario: Record<string, UsageTotals>;
+  /** Keyed by model, or "unknown" for providers that don't report one */
+  byModel: Record<string, UsageTotals>;
+  budget?: UsageBudget;
+  budgetExceeded: boolean;
+}
+
+export interface UsageTrackerOptions {
+  prices?: PriceTable;
+  budget?: UsageBudget;
+}
+
+/**
+ * Adds up the token usage of every LLM call made through its wrapped
+ * providers, per phase, scenario and model, and prices it from a table.
+ * Once a budget is reached, further calls are refused; calls already in
+ * flight still complete and are counted.
+ */
+export class UsageTracker {
+  private prices: PriceTable;
+  private budget?: UsageBudget;
+  private totals = emptyTotals();
+  private byPhase: Partial<Record<UsagePhase, UsageTotals>> = {};
+  private byScenario: Record<string, UsageTotals> = {};
+  private byModel: Record<string, UsageTotals> = {};
+
+  constructor(options?: UsageTrackerOptions) {
+    this.prices = options?.prices ?? {};
+    this.budget = options?.budget;
+  }
+
+  /** A provider that records its calls here under `phase` (and `scenario`) */
+  wrap(provider: LLMProvider, context: { phase: UsagePhase; scenario?: string }): LLMProvider {
+    return new MeteredLLMProvider(provider, this, context);
+  }
+
+  record(
+    usage: LLMResponse["tokenUsage"],
+    context: { phase: UsagePhase; scenario?: string; model?: string }
+  ): void {
+    const price = context.model !== undefined ? this.prices[context.model] : undefined;
+    const cost = price ? (usage.input * price.input + usage.output * price.output) / 1_000_000 : 0;
+
+    const buckets = [
+      this.totals,
+      (this.byPhase[context.phase] ??= emptyTotals()),
+      (this.byModel[context.model ?? "unknown"] ??= emptyTotals()),
+    ];
+    if (context.scenario !== undefined) {
+      buckets.push((this.byScenario[context.scenario] ??= emptyTotals()));
+    }
+    for (const bucket of buckets) {
+      bucket.calls++;
+      bucket.input += usage.input;
+      bucket.output += usage.output;
+      bucket.total += usage.total;
+      bucket.cost += cost;
+      if (!price) bucket.unpriced++;
+    }
+  }
+
+  get exceeded(): boolean {
+    if (!this.budget) return false;
+    return (
+      (this.budget.usd !== undefined && this.totals.cost >= this.budget.usd) ||
+      (this.budget.tokens !== undefined && this.totals.total >= this.budget.tokens)
+    );
+  }
+
+  /** Throws when the budget is spent, so no new call is started */
+  checkBudget(): void {
+    if (this.exceeded) {
+      throw new Error(`LLM budget exceeded: ${formatUsage(this.totals)} of ${formatBudget(this.budget!)}`);
+    }
+  }
+
+  report(): UsageReport {
+    return {
+      total: { ...this.totals },
+      byPhase: cloneBuckets(this.byPhase),
+      byScenario: cloneBuckets(this.byScenario),
+      byModel: cloneBuckets(this.byModel),
+      ...(this.budget ? { budget: { ...this.budget } } : {}),
+      budgetExceeded: this.exceeded,
+    };
+  }
+}
+
+class MeteredLLMProvider implements LLMProvider {
+  private inner: LLMProvider;
+  private tracker: UsageTracker;
+  private context: { phase: UsagePhase; scenario?: string };
+
+  constructor(inner: LLMProvider, tracker: UsageTracker, context: { phase: UsagePhase; scenario?: string }) {
+    this.inner = inner;
+    this.tracker = tracker;
+    this.context = context;
+  }
+
+  // Forwarded so the judge cache still recognizes the provider
+  get name(): string | undefined {
+    return this.inner.name;
+  }
+
+  get model(): string | undefined {
+    return this.inner.model;
+  }
+
+  async generate(params: Parameters<LLMProvider["generate"]>[0]): Promise<LLMResponse> {
+    this.tracker.checkBudget();
+    const response = await this.inner.generate(params);
+    // A fallback chain reports the model that actually answered
+    this.tracker.record(response.tokenUsage, { ...this.context, model: response.call?.model ?? this.inner.model });
+    return response;
+  }
+}
+
+/** "12,345 tokens, $0.42" — cost is left out when nothing was priced */
+export function formatUsage(totals: UsageTotals): string {
+  const tokens = `${totals.total.toLocaleString("en-US")} tokens`;
+  return totals.unpriced === totals.calls ? tokens : `${tokens}, ${formatCost(totals.cost)}`;
+}
+
+export function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+/** "5" or "$5" is USD; "200000 tokens" or "200k tokens" is a token budget */
+export function parseBudget(text: string): UsageBudget {
+  const trimmed = text.trim();
+  const usd = /^\$?(\d+(?:\.\d+)?)$/.exec(trimmed);
+  if (usd) return { usd: Number(usd[1]) };
+  const tokens = /^(\d+(?:\.\d+)?)\s*([km])?\s*tokens?$/i.exec(trimmed);
+  if (tokens) {
+    const multiplier = tokens[2]?.toLowerCase() === "m" ? 1_000_000 : tokens[2] ? 1_000 : 1;
+    return { tokens: Math.round(Number(tokens[1]) * multiplier) };
+  }
+  throw new Error(`Invalid budget "${text}". Use a USD amount like "2.50" or a token count like "500k tokens".`);
+}
+
+function formatBudget(budget: UsageBudget): string {
+  const parts: string[] = [];
+  if (budget.tokens !== undefined) parts.push(`${budget.tokens.toLocaleString("en-US")} tokens`);
+  if (budget.usd !== undefined) parts.push(formatCost(budget.usd));
+  return parts.join(" / ");
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, input: 0, output: 0, total: 0, cost: 0, unpriced: 0 };
+}
+
+function cloneBuckets<K extends string>(buckets: Partial<Record<K, UsageTotals>>): Record<K, UsageTotals> {
+  const copy = {} as Record<K, UsageTotals>;
+  for (const [key, totals] of Object.entries(buckets) as [K, UsageTotals][]) {
+    copy[key] = { ...totals };
+  }
+  return copy;
+}
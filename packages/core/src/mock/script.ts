@@ -0,0 +1,156 @@
+import { isRecord } from "../util.js";
+
+/** A tool call the mock agent reports as made during its turn */
+export interface MockToolCall {
+  name: string;
+  arguments?: Record<string, unknown>;
+  result?: unknown;
+}
+
+/** What the mock agent sends back for one request */
+export interface MockReply {
+  /** Response text. `$1`, `$2`… are replaced with the rule's regex groups. */
+  text?: string;
+  toolCalls?: MockToolCall[];
+  usage?: { input: number; output: number };
+  /** Wait before responding (before the first byte for streams) */
+  delayMs?: number;
+  /** Stream the reply as AI SDK UI message SSE or AI SDK data-stream lines instead of JSON */
+  stream?: "sse" | "data-stream";
+  /** Delay between streamed chunks */
+  chunkDelayMs?: number;
+  /** Respond with this HTTP status instead; non-2xx statuses send `error` as the body */
+  status?: number;
+  error?: string;
+  headers?: Record<string, string>;
+}
+
+/** The request as the mock agent saw it, in either of HttpAdapter's request formats */
+export interface MockRequest {
+  format: "messages" | "legacy";
+  /** Latest user message */
+  message: string;
+  history: { role: string; content: string }[];
+  conversationId?: string;
+  /** Zero-based user turn within the conversation */
+  turn: number;
+  body: unknown;
+}
+
+export interface MockRule extends MockReply {
+  /** Regex tested against the latest user message. Strings are case-insensitive; omit to match anything. */
+  match?: string | RegExp;
+  /** Stop matching after this many uses, letting later rules take over (e.g. fail twice, then succeed) */
+  times?: number;
+  /** TS/JS scripts only: compute the reply, overriding the rule's static fields */
+  respond?: (request: MockRequest, match: RegExpMatchArray | null) => MockReply | Promise<MockReply>;
+}
+
+export interface MockScript {
+  port?: number;
+  /** Default streaming mode for rules that don't set one */
+  stream?: MockReply["stream"];
+  rules: MockRule[];
+  /** Reply when no rule matches. Without one, unmatched requests get HTTP 500. */
+  fallback?: MockReply;
+}
+
+const STREAM_MODES = ["sse", "data-stream"];
+
+/** Validate a script loaded from YAML, JSON or a TS module. Throws listing every problem. */
+export function validateMockScript(obj: unknown): MockScript {
+  const errors: string[] = [];
+
+  if (!isRecord(obj)) {
+    throw new Error("Mock script must be an object with a 'rules' array");
+  }
+  if (!Array.isArray(obj.rules)) {
+    errors.push("'rules' must be an array");
+  }
+  if (obj.port !== undefined && !Number.isInteger(obj.port)) {
+    errors.push("'port' must be an integer");
+  }
+  if (obj.stream !== undefined && !STREAM_MODES.includes(obj.stream as string)) {
+    errors.push(`'stream' must be one of: ${STREAM_MODES.join(", ")}`);
+  }
+
+  const rules = Array.isArray(obj.rules) ? obj.rules : [];
+  rules.forEach((rule: unknown, i) => {
+    const where = `rules[${i}]`;
+    if (!isRecord(rule)) {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    if (rule.match !== undefined) {
+      if (typeof rule.match === "string") {
+        try {
+          new RegExp(rule.match);
+        } catch (e) {
+          errors.push(`${where}.match is not a valid regex: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      } else if (!(rule.match instanceof RegExp)) {
+        errors.push(`${where}.match must be a string or RegExp`);
+      }
+    }
+    if (rule.times !== undefined && !(Number.isInteger(rule.times) && (rule.times as number) > 0)) {
+      errors.push(`${where}.times must be a positive integer`);
+    }
+    if (rule.respond !== undefined && typeof rule.respond !== "function") {
+      errors.push(`${where}.respond must be a function`);
+    }
+    validateReply(rule, where, errors);
+  });
+
+  if (obj.fallback !== undefined) {
+    if (isRecord(obj.fallback)) validateReply(obj.fallback, "fallback", errors);
+    else errors.push("'fallback' must be an object");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid mock script:\n  ${errors.join("\n  ")}`);
+  }
+  return obj as unknown as MockScript;
+}
+
+function validateReply(reply: Record<string, unknown>, where: string, errors: string[]): void {
+  if (reply.text !== undefined && typeof reply.text !== "string") {
+    errors.push(`${where}.text must be a string`);
+  }
+  if (reply.toolCalls !== undefined) {
+    if (!Array.isArray(reply.toolCalls)) {
+      errors.push(`${where}.toolCalls must be an array`);
+    } else {
+      reply.toolCalls.forEach((tc: unknown, j) => {
+        if (!isRecord(tc) || typeof tc.name !== "string") {
+          errors.push(`${where}.toolCalls[${j}] must have a 'name' string`);
+        } else if (tc.arguments !== undefined && !isRecord(tc.arguments)) {
+          errors.push(`${where}.toolCalls[${j}].arguments must be an object`);
+        }
+      });
+    }
+  }
+  if (reply.usage !== undefined) {
+    const usage = reply.usage;
+    if (!isRecord(usage) || typeof usage.input !== "number" || typeof usage.output !== "number") {
+      errors.push(`${where}.usage must be { input: number, output: number }`);
+    }
+  }
+  for (const key of ["delayMs", "chunkDelayMs"]) {
+    const value = reply[key];
+    if (value !== undefined && !(typeof value === "number" && value >= 0)) {
+      errors.push(`${where}.${key} must be a non-negative number`);
+    }
+  }
+  if (reply.stream !== undefined && !STREAM_MODES.includes(reply.stream as string)) {
+    errors.push(`${where}.stream must be one of: ${STREAM_MODES.join(", ")}`);
+  }
+  if (reply.status !== undefined) {
+    const status = reply.status;
+    if (!(Number.isInteger(status) && (status as number) >= 100 && (status as number) <= 599)) {
+      errors.push(`${where}.status must be an HTTP status code`);
+    }
+  }
+  if (reply.error !== undefined && typeof reply.error !== "string") {
+    errors.push(`${where}.error must be a string`);
+  }
+}
@@ -0,0 +1,282 @@
+import { createServer, STATUS_CODES, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { sleep } from "../adapter/http-retry.js";
+import {
+  validateMockScript,
+  type MockReply,
+  type MockRequest,
+  type MockRule,
+  type MockScript,
+} from "./script.js";
+import { isRecord } from "../util.js";
+
+export interface MockAgentOptions {
+  /** Overrides the script's port. 0 (the default without either) picks a free port. */
+  port?: number;
+  host?: string;
+  /** Called after every request, e.g. to log it */
+  onRequest?: (entry: MockRequestLog) => void;
+}
+
+export interface MockRequestLog {
+  request?: MockRequest;
+  /** Index of the matching rule, "fallback", or null when nothing answered */
+  rule: number | "fallback" | null;
+  status: number;
+  durationMs: number;
+}
+
+export interface MockAgent {
+  url: string;
+  port: number;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a local HTTP agent that answers HttpAdapter requests ("messages" or
+ * "legacy" format) from a script of rules. Each request is answered by the
+ * first rule whose regex matches the latest user message.
+ */
+export async function startMockAgent(script: MockScript, options: MockAgentOptions = {}): Promise<MockAgent> {
+  const mock = new MockHandler(validateMockScript(script));
+  const server = createServer((req, res) => {
+    const start = performance.now();
+    mock
+      .handle(req, res)
+      .catch((e) => {
+        const message = e instanceof Error ? e.message : String(e);
+        if (!res.headersSent) sendJson(res, 500, { error: message });
+        else res.end();
+        return { rule: null, status: 500 } as Omit<MockRequestLog, "durationMs">;
+      })
+      .then((entry) => options.onRequest?.({ ...entry, durationMs: Math.round(performance.now() - start) }));
+  });
+
+  const host = options.host ?? "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? script.port ?? 0, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://${host}:${port}`,
+    port,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
+
+class MockHandler {
+  private script: MockScript;
+  private patterns: (RegExp | null)[];
+  private uses = new Map<number, number>();
+  private legacyTurns = new Map<string, number>();
+
+  constructor(script: MockScript) {
+    this.script = script;
+    this.patterns = script.rules.map((rule) =>
+      rule.match === undefined ? null : typeof rule.match === "string" ? new RegExp(rule.match, "i") : rule.match
+    );
+  }
+
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<Omit<MockRequestLog, "durationMs">> {
+    if (req.method !== "POST") {
+      sendJson(res, 405, { error: "The mock agent only accepts POST requests" });
+      return { rule: null, status: 405 };
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      sendJson(res, 400, { error: "Request body is not valid JSON" });
+      return { rule: null, status: 400 };
+    }
+
+    const request = this.parseRequest(body);
+    if (!request) {
+      sendJson(res, 400, { error: "Expected a { messages } or { message, conversation_id } body" });
+      return { rule: null, status: 400 };
+    }
+
+    const matched = await this.resolve(request);
+    if (!matched) {
+      sendJson(res, 500, { error: `No mock rule matches ${JSON.stringify(request.message)}` });
+      return { request, rule: null, status: 500 };
+    }
+
+    const { reply } = matched;
+    const status = reply.status ?? 200;
+    if (reply.delayMs) await sleep(reply.delayMs);
+
+    if (status >= 300) {
+      res.writeHead(status, { "Content-Type": "application/json", ...reply.headers });
+      res.end(JSON.stringify({ error: reply.error ?? STATUS_CODES[status] ?? "Mock error" }));
+      return { request, rule: matched.rule, status };
+    }
+
+    const stream = reply.stream ?? this.script.stream;
+    if (stream) {
+      await streamReply(res, status, reply, stream);
+    } else {
+      res.writeHead(status, { "Content-Type": "application/json", ...reply.headers });
+      res.end(
+        JSON.stringify({
+          message: reply.text ?? "",
+          tool_calls: (reply.toolCalls ?? []).map((tc) => ({
+            name: tc.name,
+            arguments: tc.arguments ?? {},
+            ...(tc.result !== undefined ? { result: tc.result } : {}),
+          })),
+          ...(reply.usage
+            ? { usage: { input_tokens: reply.usage.input, output_tokens: reply.usage.output } }
+            : {}),
+          ...(request.conversationId ? { conversation_id: request.conversationId } : {}),
+        })
+      );
+    }
+    return { request, rule: matched.rule, status };
+  }
+
+  private parseRequest(body: unknown): MockRequest | null {
+    if (!isRecord(body)) return null;
+
+    if (Array.isArray(body.messages)) {
+      const history = body.messages
+        .filter(isRecord)
+        .map((m) => ({ role: String(m.role ?? "user"), content: contentText(m.content) }));
+      const userMessages = history.filter((m) => m.role === "user");
+      return {
+        format: "messages",
+        message: userMessages.at(-1)?.content ?? "",
+        history,
+        turn: Math.max(userMessages.length - 1, 0),
+        body,
+      };
+    }
+
+    if (typeof body.message === "string") {
+      const conversationId = typeof body.conversation_id === "string" ? body.conversation_id : undefined;
+      const key = conversationId ?? "";
+      const turn = this.legacyTurns.get(key) ?? 0;
+      this.legacyTurns.set(key, turn + 1);
+      return { format: "legacy", message: body.message, history: [], conversationId, turn, body };
+    }
+
+    return null;
+  }
+
+  private async resolve(request: MockRequest): Promise<{ rule: number | "fallback"; reply: MockReply } | null> {
+    const rules = this.script.rules;
+    for (let i = 0; i < rules.length; i++) {
+      const rule = rules[i];
+      const uses = this.uses.get(i) ?? 0;
+      if (rule.times !== undefined && uses >= rule.times) continue;
+
+      const pattern = this.patterns[i];
+      const match = pattern ? request.message.match(pattern) : null;
+      if (pattern && !match) continue;
+
+      this.uses.set(i, uses + 1);
+      return { rule: i, reply: await ruleReply(rule, request, match) };
+    }
+
+    return this.script.fallback ? { rule: "fallback", reply: this.script.fallback } : null;
+  }
+}
+
+async function ruleReply(rule: MockRule, request: MockRequest, match: RegExpMatchArray | null): Promise<MockReply> {
+  const { match: _pattern, times: _times, respond, ...reply } = rule;
+  const computed = respond ? { ...reply, ...(await respond(request, match)) } : reply;
+  if (match && computed.text) {
+    computed.text = computed.text.replace(/\$(\d+)/g, (whole, n: string) => match[Number(n)] ?? whole);
+  }
+  return computed;
+}
+
+/** Stream the reply: tool calls first, then the text in word-sized chunks */
+async function streamReply(
+  res: ServerResponse,
+  status: number,
+  reply: MockReply,
+  stream: "sse" | "data-stream"
+): Promise<void> {
+  const toolCalls = reply.toolCalls ?? [];
+  const chunks = (reply.text ?? "").match(/\S+\s*|\s+/g) ?? [];
+  const pause = () => (reply.chunkDelayMs ? sleep(reply.chunkDelayMs) : Promise.resolve());
+
+  if (stream === "sse") {
+    res.writeHead(status, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "x-vercel-ai-ui-message-stream": "v1",
+      ...reply.headers,
+    });
+    const write = (part: unknown) => res.write(`data: ${JSON.stringify(part)}\n\n`);
+
+    write({ type: "start" });
+    toolCalls.forEach((tc, i) => {
+      const toolCallId = `call_${i}`;
+      write({ type: "tool-input-available", toolCallId, toolName: tc.name, input: tc.arguments ?? {} });
+      if (tc.result !== undefined) write({ type: "tool-output-available", toolCallId, output: tc.result });
+    });
+    for (const chunk of chunks) {
+      await pause();
+      write({ type: "text-delta", id: "text-0", delta: chunk });
+    }
+    write({ type: "finish" });
+    res.end("data: [DONE]\n\n");
+    return;
+  }
+
+  res.writeHead(status, {
+    "Content-Type": "text/plain; charset=utf-8",
+    "x-vercel-ai-data-stream": "v1",
+    ...reply.headers,
+  });
+  const write = (code: string, part: unknown) => res.write(`${code}:${JSON.stringify(part)}\n`);
+
+  toolCalls.forEach((tc, i) => {
+    const toolCallId = `call_${i}`;
+    write("9", { toolCallId, toolName: tc.name, args: tc.arguments ?? {} });
+    if (tc.result !== undefined) write("a", { toolCallId, result: tc.result });
+  });
+  for (const chunk of chunks) {
+    await pause();
+    write("0", chunk);
+  }
+  const usage = { promptTokens: reply.usage?.input ?? 0, completionTokens: reply.usage?.output ?? 0 };
+  write("e", { finishReason: "stop", usage, isContinued: false });
+  write("d", { finishReason: "stop", usage });
+  res.end();
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/** Message content as text: a string, or the text parts of a content array */
+function contentText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part) => (typeof part === "string" ? part : isRecord(part) && typeof part.text === "string" ? part.text : ""))
+    .join("");
+}
@@ -1,16 +1,23 @@
-import type { RunResult } from "../scenario/types.js";
+import type { LatencyStats, RunResult, SampleStats } from "../scenario/types.js";
+import type { PanelVerdict } from "../assert/types.js";
+import { failedOnJudgeErrors } from "../assert/scorer.js";
+import { formatCost, type UsageReport, type UsageTotals } from "../llm/usage.js";
+import { runLatency } from "../scenario/latency.js";
 
 export function generateHtmlReport(
   results: RunResult[],
-  options?: { version?: string }
+  options?: { version?: string; usage?: UsageReport }
 ): string {
   const passed = results.filter((r) => r.passed).length;
-  const failed = results.length - passed;
+  const judgeErrors = results.filter((r) => failedOnJudgeErrors(r)).length;
+  const failed = results.length - passed - judgeErrors;
   const avgScore =
     results.length > 0
       ? results.reduce((sum, r) => sum + r.score, 0) / results.length
       : 0;
   const totalDuration = results.reduce((sum, r) => sum + r.duration, 0);
+  const flaky = results.filter((r) => r.samples?.flakiness === "flaky").length;
+  const latency = runLatency(results);
   const versionLabel = options?.version ? ` — ${esc(options.version)}` : "";
 
   return `<!DOCTYPE html>
@@ -31,6 +38,7 @@ body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",sans-serif;backgrou
 .stat .label{color:#6c757d;font-size:.75rem;text-transform:uppercase;letter-spacing:.05em}
 .pass{color:#198754}
 .fail{color:#dc3545}
+.flaky{color:#b58105}
 table{width:100%;background:#fff;border-radius:8px;border-collapse:collapse;border:1px solid #dee2e6;margin-bottom:2rem}
 th{text-align:left;padding:.75rem 1rem;border-bottom:2px solid #dee2e6;font-size:.875rem;color:#6c757d}
 td{padding:.75rem 1rem;border-bottom:1px solid #dee2e6;font-size:.875rem}
@@ -60,20 +68,24 @@ tr:hover{background:#f8f9fa}
   <div class="stat"><div class="value pass">${passed}</div><div class="label">Passed</div></div>
   <div class="stat"><div class="value fail">${failed}</div><div class="label">Failed</div></div>
   <div class="stat"><div class="value">${Math.round(avgScore * 100)}%</div><div class="label">Avg Score</div></div>
-</div>
+${judgeErrors > 0 ? `  <div class="stat"><div class="value flaky">${judgeErrors}</div><div class="label">Judge Errors</div></div>
+` : ""}${flaky > 0 ? `  <div class="stat"><div class="value flaky">${flaky}</div><div class="label">Flaky</div></div>
+` : ""}${latency ? `  <div class="stat"><div class="value">${fmtDur(latency.p90)}</div><div class="label">Agent p90 (p50 ${fmtDur(latency.p50)}, p99 ${fmtDur(latency.p99)})</div></div>
+` : ""}${options?.usage ? renderUsageStats(options.usage) : ""}</div>
 <table>
-  <thead><tr><th>Scenario</th><th>Result</th><th>Score</th><th>Assertions</th><th>Duration</th></tr></thead>
+  <thead><tr><th>Scenario</th><th>Result</th><th>Score</th><th>Assertions</th><th>Duration</th><th>Latency p50/p90/p99</th></tr></thead>
   <tbody>
 ${results.map((r) => `    <tr>
       <td>${esc(r.scenario)}</td>
-      <td class="${r.passed ? "pass" : "fail"}">${r.passed ? "PASS" : "FAIL"}</td>
+      <td class="${r.passed ? "pass" : failedOnJudgeErrors(r) ? "flaky" : "fail"}">${r.passed ? "PASS" : failedOnJudgeErrors(r) ? "JUDGE ERROR" : "FAIL"}${r.samples ? ` ${r.samples.passed}/${r.samples.count}` : ""}</td>
       <td>${Math.round(r.score * 100)}%</td>
       <td>${r.assertions.filter((a) => a.passed).length}/${r.assertions.length}</td>
       <td>${fmtDur(r.duration)}</td>
+      <td>${r.latency ? fmtLatency(r.latency) : "—"}</td>
     </tr>`).join("\n")}
   </tbody>
 </table>
-<h2 style="margin:1.5rem 0 1rem;font-size:1.2rem">Scenario Details</h2>
+${options?.usage && options.usage.total.calls > 0 ? renderUsage(options.usage) : ""}<h2 style="margin:1.5rem 0 1rem;font-size:1.2rem">Scenario Details</h2>
 ${results.map((r) => renderDetail(r)).join("\n")}
 <script>window.__FABRIK_DATA__=${JSON.stringify(results)};</script>
 </body>
@@ -93,11 +105,61 @@ function fmtDur(ms: number): string {
   return `${(ms / 1000).toFixed(1)}s`;
 }
 
+function fmtLatency(latency: LatencyStats): string {
+  return [latency.p50, latency.p90, latency.p99].map(fmtDur).join(" / ");
+}
+
+function renderUsageStats(usage: UsageReport): string {
+  const cost = usage.total.unpriced === usage.total.calls ? "—" : formatCost(usage.total.cost);
+  return `  <div class="stat"><div class="value">${usage.total.total.toLocaleString("en-US")}</div><div class="label">LLM Tokens</div></div>
+  <div class="stat"><div class="value${usage.budgetExceeded ? " fail" : ""}">${cost}</div><div class="label">${usage.budgetExceeded ? "LLM Cost (budget exceeded)" : "LLM Cost"}</div></div>
+`;
+}
+
+function renderUsage(usage: UsageReport): string {
+  const row = (label: string, t: UsageTotals) =>
+    `    <tr><td>${esc(label)}</td><td>${t.calls}</td><td>${t.input.toLocaleString("en-US")}</td><td>${t.output.toLocaleString("en-US")}</td><td>${t.unpriced === t.calls ? "—" : `${formatCost(t.cost)}${t.unpriced > 0 ? ` (${t.unpriced} unpriced)` : ""}`}</td></tr>`;
+  const rows = [
+    ...Object.entries(usage.byPhase).map(([phase, t]) => row(phase, t!)),
+    ...Object.entries(usage.byModel).map(([model, t]) => row(`model ${model}`, t)),
+    row("total", usage.total),
+  ];
+  return `<h2 style="margin:1.5rem 0 1rem;font-size:1.2rem">LLM Usage</h2>
+<table>
+  <thead><tr><th>Phase / model</th><th>Calls</th><th>Input tokens</th><th>Output tokens</th><th>Est. cost</th></tr></thead>
+  <tbody>
+${rows.join("\n")}
+  </tbody>
+</table>
+`;
+}
+
+function renderSampleStats(stats: SampleStats): string {
+  const pct = (n: number) => `${Math.round(n * 100)}%`;
+  const [low, high] = stats.passRateInterval;
+  const samples = stats.results
+    .map((s, i) => `<span class="${s.passed ? "pass" : "fail"}" title="score ${pct(s.score)}">#${i + 1} ${s.passed ? "✓" : "✗"}</span>`)
+    .join(" ");
+  return `  <div class="tool-calls">${stats.flakiness === "flaky" ? `<strong class="flaky">Flaky</strong> · ` : ""}${stats.passed}/${stats.count} samples passed (${pct(stats.passRate)}, 95% CI ${pct(low)}–${pct(high)}, required ${pct(stats.requiredPassRate)}) · score ${stats.meanScore.toFixed(2)} ± ${stats.scoreStdDev.toFixed(2)}<br>${samples}</div>
+`;
+}
+
+function renderPanel(panel: PanelVerdict): string {
+  const votes = panel.votes
+    .map((v) =>
+      v.error !== undefined
+        ? `${esc(v.judge)} error`
+        : `${esc(v.judge)} ${v.passed ? "pass" : "fail"}${v.score !== undefined ? ` (${v.score})` : ""}`
+    )
+    .join(", ");
+  return `<br>Judges${panel.disagreement ? ` <strong class="flaky">split</strong>` : ""}: ${votes}`;
+}
+
 function renderDetail(r: RunResult): string {
   const assertions = r.assertions
     .map(
       (a) =>
-        `<div class="assertion ${a.passed ? "passed" : "failed"}"><strong>[${esc(a.type)}]</strong> ${a.passed ? "PASS" : "FAIL"}${a.expected ? ` — expected: ${esc(String(a.expected))}` : ""}${a.actual ? `, got: ${esc(String(a.actual))}` : ""}${a.reasoning ? `<br><em>${esc(a.reasoning)}</em>` : ""}</div>`
+        `<div class="assertion ${a.passed ? "passed" : "failed"}"><strong>[${esc(a.type)}]</strong> ${a.passed ? "PASS" : a.status === "judge-error" ? "JUDGE ERROR" : a.soft && a.severity !== "critical" ? "SOFT FAIL" : "FAIL"}${a.severity && a.severity !== "major" ? ` (${a.severity})` : ""}${a.expected ? ` — expected: ${esc(String(a.expected))}` : ""}${a.actual ? `, got: ${esc(String(a.actual))}` : ""}${a.reasoning ? `<br><em>${esc(a.reasoning)}</em>` : ""}${a.error ? `<br>Error: ${esc(a.error)}` : ""}${a.panel ? renderPanel(a.panel) : ""}</div>`
     )
     .join("\n    ");
 
@@ -107,13 +169,14 @@ function renderDetail(r: RunResult): string {
         t.toolCalls && t.toolCalls.length > 0
           ? `<div class="tool-calls">Tools: ${t.toolCalls.map((tc) => tc.name).join(", ")}</div>`
           : "";
-      return `<div class="turn ${t.role}"><strong>${t.role}:</strong> ${esc(t.message.slice(0, 500))}${t.message.length > 500 ? "..." : ""}${toolInfo}</div>`;
+      const retryInfo = t.retries ? `<div class="tool-calls">Retried ${t.retries}×</div>` : "";
+      return `<div class="turn ${t.role}"><strong>${t.role}:</strong> ${esc(t.message.slice(0, 500))}${t.message.length > 500 ? "..." : ""}${toolInfo}${retryInfo}</div>`;
     })
     .join("\n    ");
 
   return `<details class="scenario-detail">
   <summary class="${r.passed ? "pass" : "fail"}">${r.passed ? "PASS" : "FAIL"} — ${esc(r.scenario)}</summary>
-  <div class="assertions">
+${r.samples ? renderSampleStats(r.samples) : ""}  <div class="assertions">
     <h4 style="font-size:.85rem;margin:.5rem 0 .25rem">Assertions</h4>
     ${assertions}
   </div>
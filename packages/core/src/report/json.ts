@@ -1,4 +1,7 @@
-import type { RunResult } from "../scenario/types.js";
+import type { LatencyStats, RunResult } from "../scenario/types.js";
+import { failedOnJudgeErrors } from "../assert/scorer.js";
+import type { UsageReport } from "../llm/usage.js";
+import { runLatency } from "../scenario/latency.js";
 
 export interface JsonReport {
   fabrikVersion: string;
@@ -7,23 +10,33 @@ export interface JsonReport {
   summary: {
     total: number;
     passed: number;
+    /** Scenarios the agent failed; those failed only by judge errors are counted in judgeErrors */
     failed: number;
+    judgeErrors: number;
     avgScore: number;
     totalDuration: number;
+    /** Sampled scenarios whose samples disagreed */
+    flaky: number;
+    /** Agent response latency over every turn of the run */
+    latency?: LatencyStats;
   };
+  /** LLM calls made for judging and simulated users, when tracked */
+  usage?: UsageReport;
   results: RunResult[];
 }
 
 export function generateJsonReport(
   results: RunResult[],
-  options?: { version?: string }
+  options?: { version?: string; usage?: UsageReport }
 ): string {
   const passed = results.filter((r) => r.passed).length;
+  const judgeErrors = results.filter((r) => failedOnJudgeErrors(r)).length;
   const avgScore =
     results.length > 0
       ? results.reduce((sum, r) => sum + r.score, 0) / results.length
       : 0;
   const totalDuration = results.reduce((sum, r) => sum + r.duration, 0);
+  const latency = runLatency(results);
 
   const report: JsonReport = {
     fabrikVersion: "0.1.0",
@@ -32,10 +45,14 @@ export function generateJsonReport(
     summary: {
       total: results.length,
       passed,
-      failed: results.length - passed,
+      failed: results.length - passed - judgeErrors,
+      judgeErrors,
       avgScore: Math.round(avgScore * 1000) / 1000,
       totalDuration: Math.round(totalDuration),
+      flaky: results.filter((r) => r.samples?.flakiness === "flaky").length,
+      ...(latency ? { latency } : {}),
     },
+    ...(options?.usage ? { usage: options.usage } : {}),
     results,
   };
 
@@ -1,8 +1,11 @@
 import chalk from "chalk";
 import Table from "cli-table3";
-import type { RunResult } from "../scenario/types.js";
+import type { AssertionResult, LatencyStats, RunResult, SampleStats } from "../scenario/types.js";
+import { failedOnJudgeErrors } from "../assert/scorer.js";
+import { formatUsage, type UsageReport } from "../llm/usage.js";
+import { runLatency } from "../scenario/latency.js";
 
-export function printTerminalReport(results: RunResult[]): void {
+export function printTerminalReport(results: RunResult[], options?: { usage?: UsageReport }): void {
   console.log();
   console.log(chalk.bold("  Fabrik — Test Results"));
   console.log(chalk.dim("  " + "─".repeat(50)));
@@ -15,15 +18,19 @@ export function printTerminalReport(results: RunResult[]): void {
       chalk.bold("Score"),
       chalk.bold("Assertions"),
       chalk.bold("Duration"),
+      chalk.bold("Latency p50/p90/p99"),
     ],
     style: { head: [], border: [] },
-    colWidths: [35, 10, 10, 14, 12],
+    colWidths: [35, 16, 10, 14, 12, 22],
   });
 
   for (const result of results) {
+    const sampleCount = result.samples ? ` ${result.samples.passed}/${result.samples.count}` : "";
     const status = result.passed
-      ? chalk.green("PASS")
-      : chalk.red("FAIL");
+      ? chalk.green(`PASS${sampleCount}`)
+      : failedOnJudgeErrors(result)
+        ? chalk.yellow(`JUDGE ERR${sampleCount}`)
+        : chalk.red(`FAIL${sampleCount}`);
 
     const score = result.passed
       ? chalk.green(`${Math.round(result.score * 100)}%`)
@@ -44,14 +51,26 @@ export function printTerminalReport(results: RunResult[]): void {
       score,
       assertionText,
       duration,
+      result.latency ? formatLatency(result.latency) : chalk.dim("—"),
     ]);
   }
 
   console.log(table.toString());
   console.log();
 
+  const flaky = results.filter((r) => r.samples?.flakiness === "flaky");
+  if (flaky.length > 0) {
+    console.log(chalk.yellow.bold("  Flaky:"));
+    console.log();
+    for (const result of flaky) {
+      console.log(chalk.yellow(`  ~ ${result.scenario}`));
+      console.log(chalk.dim(`    ${formatSampleStats(result.samples!)}`));
+    }
+    console.log();
+  }
+
   // Print failed assertion details
-  const failed = results.filter((r) => !r.passed);
+  const failed = results.filter((r) => !r.passed && !failedOnJudgeErrors(r));
   if (failed.length > 0) {
     console.log(chalk.red.bold("  Failures:"));
     console.log();
@@ -63,14 +82,43 @@ export function printTerminalReport(results: RunResult[]): void {
         console.log(chalk.dim(`    Error: ${result.error}`));
       }
 
+      const retries = countRetries(result);
+      if (retries > 0) {
+        console.log(chalk.yellow(`    Agent requests were retried ${retries} time(s) — infrastructure may be flaky`));
+      }
+
+      for (const a of result.assertions.filter((a) => !a.passed)) {
+        printFailedAssertion(a);
+      }
+      console.log();
+    }
+  }
+
+  // The agent wasn't judged here: the judge failed or never gave valid output
+  const judgeErrors = results.filter((r) => failedOnJudgeErrors(r));
+  if (judgeErrors.length > 0) {
+    console.log(chalk.yellow.bold("  Judge errors:"));
+    console.log();
+
+    for (const result of judgeErrors) {
+      console.log(chalk.yellow(`  ? ${result.scenario}`));
+      for (const a of result.assertions.filter((a) => a.status === "judge-error")) {
+        printFailedAssertion(a);
+      }
+      console.log();
+    }
+  }
+
+  // Soft failures and those within a passThreshold don't fail the scenario, but are still worth a look
+  const withNonBlocking = results.filter((r) => r.passed && r.assertions.some((a) => !a.passed));
+  if (withNonBlocking.length > 0) {
+    console.log(chalk.yellow.bold("  Non-blocking failures:"));
+    console.log();
+
+    for (const result of withNonBlocking) {
+      console.log(chalk.yellow(`  ⚠ ${result.scenario}`));
       for (const a of result.assertions.filter((a) => !a.passed)) {
-        console.log(chalk.dim(`    [${a.type}] expected: ${a.expected}, got: ${a.actual}`));
-        if (a.reasoning) {
-          console.log(chalk.dim(`      reason: ${a.reasoning}`));
-        }
-        if (a.error) {
-          console.log(chalk.dim(`      error: ${a.error}`));
-        }
+        printFailedAssertion(a);
       }
       console.log();
     }
@@ -79,23 +127,99 @@ export function printTerminalReport(results: RunResult[]): void {
   // Summary
   const total = results.length;
   const passed = results.filter((r) => r.passed).length;
-  const failedCount = total - passed;
+  const failedCount = total - passed - judgeErrors.length;
 
   const summary = [
     chalk.bold(`  ${total} scenarios`),
     chalk.green(`${passed} passed`),
     failedCount > 0 ? chalk.red(`${failedCount} failed`) : null,
+    judgeErrors.length > 0 ? chalk.yellow(`${judgeErrors.length} judge errors`) : null,
+    flaky.length > 0 ? chalk.yellow(`${flaky.length} flaky`) : null,
   ]
     .filter(Boolean)
     .join(chalk.dim(" · "));
 
   console.log(summary);
 
+  const totalRetries = results.reduce((sum, r) => sum + countRetries(r), 0);
+  if (totalRetries > 0) {
+    console.log(chalk.yellow(`  ${totalRetries} agent request retries`));
+  }
+
   const totalDuration = results.reduce((sum, r) => sum + r.duration, 0);
   console.log(chalk.dim(`  Completed in ${formatDuration(totalDuration)}`));
+  const latency = runLatency(results);
+  if (latency) {
+    console.log(
+      chalk.dim(
+        `  Agent latency over ${latency.count} turns: p50 ${formatDuration(latency.p50)} · p90 ${formatDuration(latency.p90)} · p99 ${formatDuration(latency.p99)}`
+      )
+    );
+  }
+  console.log();
+
+  if (options?.usage && options.usage.total.calls > 0) {
+    printUsage(options.usage);
+  }
+}
+
+export function printUsage(usage: UsageReport): void {
+  const phases = Object.entries(usage.byPhase)
+    .map(([phase, totals]) => `${phase} ${formatUsage(totals!)}`)
+    .join(chalk.dim(" · "));
+  console.log(chalk.dim(`  LLM usage: ${usage.total.calls} calls, ${formatUsage(usage.total)}`));
+  console.log(chalk.dim(`    ${phases}`));
+  if (usage.total.unpriced > 0 && usage.total.unpriced < usage.total.calls) {
+    const models = Object.entries(usage.byModel)
+      .filter(([, t]) => t.unpriced > 0)
+      .map(([model]) => model);
+    console.log(chalk.dim(`    ${usage.total.unpriced} calls not priced (${models.join(", ")}); add them to usage.prices`));
+  }
+  if (usage.budgetExceeded) {
+    console.log(chalk.yellow("  LLM budget exceeded"));
+  }
   console.log();
 }
 
+function printFailedAssertion(a: AssertionResult): void {
+  const labels = [
+    a.status === "judge-error" ? "judge error" : "",
+    a.severity && a.severity !== "major" ? a.severity : "",
+    a.soft ? "soft" : "",
+  ].filter(Boolean);
+  const label = labels.length > 0 ? ` (${labels.join(", ")})` : "";
+  console.log(chalk.dim(`    [${a.type}]${label} expected: ${a.expected}, got: ${a.actual}`));
+  if (a.reasoning) {
+    console.log(chalk.dim(`      reason: ${a.reasoning}`));
+  }
+  if (a.panel?.disagreement) {
+    const votes = a.panel.votes.map((v) =>
+      v.error !== undefined ? `${v.judge} error` : `${v.judge} ${v.passed ? "✓" : "✗"}${v.score !== undefined ? ` ${v.score}` : ""}`
+    );
+    console.log(chalk.dim(`      judges split: ${votes.join(", ")}`));
+  }
+  if (a.error) {
+    console.log(chalk.dim(`      error: ${a.error}`));
+  }
+}
+
+function formatSampleStats(stats: SampleStats): string {
+  const pct = (n: number) => `${Math.round(n * 100)}%`;
+  const [low, high] = stats.passRateInterval;
+  return (
+    `${stats.passed}/${stats.count} passed (${pct(stats.passRate)}, 95% CI ${pct(low)}–${pct(high)}, ` +
+    `required ${pct(stats.requiredPassRate)}) · score ${stats.meanScore.toFixed(2)} ± ${stats.scoreStdDev.toFixed(2)}`
+  );
+}
+
+function formatLatency(latency: LatencyStats): string {
+  return [latency.p50, latency.p90, latency.p99].map(formatDuration).join("/");
+}
+
+function countRetries(result: RunResult): number {
+  return result.turns.reduce((sum, t) => sum + (t.retries ?? 0), 0);
+}
+
 function formatDuration(ms: number): string {
   if (ms < 1000) return `${Math.round(ms)}ms`;
   return `${(ms / 1000).toFixed(1)}s`;
@@ -2,15 +2,32 @@ import type { Scenario, RunResult, TurnRecord, AgentHandle, PersonaMessage } fro
 import type { AgentAdapter, AgentResponse, ConversationContext } from "./adapter/interface.js";
 import type { LLMProvider } from "./llm/provider.js";
 import type { AgentProfile } from "./discovery/agent-profile.js";
+import type { Judge } from "./assert/llm-judge.js";
+import type { JudgeCache } from "./store/judge-cache.js";
+import type { ModelPrice, UsageTracker } from "./llm/usage.js";
 import { AssertionCollector } from "./assert/collector.js";
 import { _bindGlobalAssert, _unbindGlobalAssert, _drainPendingAssertions, createAssertProxy } from "./assert/api.js";
-import { calculateScore } from "./assert/scorer.js";
+import { calculateScore, isScenarioPassed } from "./assert/scorer.js";
+import { simulateConversation } from "./scenario/simulate.js";
+import { combineSamples } from "./scenario/samples.js";
+import { computeEfficiency } from "./scenario/efficiency.js";
+import { latencyStats, turnLatencies } from "./scenario/latency.js";
 
 export interface RunnerOptions {
   timeout?: number;
   agentProfile?: AgentProfile;
   retries?: number;
   parallelism?: number;
+  /** Run every scenario this many times, overriding each scenario's own `samples` */
+  samples?: number;
+  /** Judge panel for LLM assertions: every judge votes and the majority decides. Default: the single LLM provider. */
+  judges?: Judge[];
+  /** Reuse judge verdicts for unchanged prompts */
+  judgeCache?: JudgeCache;
+  /** Record LLM token usage per scenario; once its budget is spent, no further scenarios are started */
+  usage?: UsageTracker;
+  /** Price of the agent's own model, for the cost in `RunResult.efficiency` and `assert.conversation.cost` */
+  agentPrice?: ModelPrice;
 }
 
 export class ScenarioRunner {
@@ -31,6 +48,7 @@ export class ScenarioRunner {
 
     const context: ConversationContext = {
       conversationId,
+      scenario: scenario.name,
       turns: [],
     };
 
@@ -54,6 +72,8 @@ export class ScenarioRunner {
           timestamp: Date.now(),
           latencyMs: response.latencyMs,
           toolCalls: response.toolCalls.length > 0 ? response.toolCalls : undefined,
+          retries: response.retries ? response.retries : undefined,
+          tokenUsage: response.tokenUsage,
         });
 
         context.turns.push({ role: "assistant", message: response.text });
@@ -64,8 +84,33 @@ export class ScenarioRunner {
 
     const scores = new Map<string, number>();
 
+    // Judge and simulated-user calls are metered per scenario
+    const usage = this.options.usage;
+    const judgeProvider =
+      usage && this.llmProvider
+        ? usage.wrap(this.llmProvider, { phase: "judging", scenario: scenario.name })
+        : this.llmProvider;
+    const simulationProvider =
+      usage && this.llmProvider
+        ? usage.wrap(this.llmProvider, { phase: "simulation", scenario: scenario.name })
+        : this.llmProvider;
+    const judges = usage
+      ? this.options.judges?.map((j) => ({
+          name: j.name,
+          provider: usage.wrap(j.provider, { phase: "judging", scenario: scenario.name }),
+        }))
+      : this.options.judges;
+
     // Create a bound assert proxy for this scenario's collector
-    const boundAssert = createAssertProxy(collector, this.llmProvider, this.options.agentProfile);
+    const boundAssert = createAssertProxy(
+      collector,
+      judgeProvider,
+      this.options.agentProfile,
+      turns,
+      judges,
+      this.options.judgeCache,
+      this.options.agentPrice
+    );
     const pendingBoundAssertions: Promise<void>[] = [];
 
     const trackBoundAssertion = (promise: Promise<void>): Promise<void> => {
@@ -76,17 +121,30 @@ export class ScenarioRunner {
     // Track async assertions on ctx.assert so un-awaited calls are still collected.
     const assertWithTracking: typeof boundAssert = {
       ...boundAssert,
-      sentiment: (response, expected) =>
-        trackBoundAssertion(boundAssert.sentiment(response, expected)),
+      sentiment: (response, expected, options) =>
+        trackBoundAssertion(boundAssert.sentiment(response, expected, options)),
       llmJudge: (response, opts) => trackBoundAssertion(boundAssert.llmJudge(response, opts)),
       guardrail: (response, opts) => trackBoundAssertion(boundAssert.guardrail(response, opts)),
       factuality: (response, opts) => trackBoundAssertion(boundAssert.factuality(response, opts)),
-      custom: (name, fn, response) =>
-        trackBoundAssertion(boundAssert.custom(name, fn, response)),
+      custom: (name, fn, response, options) =>
+        trackBoundAssertion(boundAssert.custom(name, fn, response, options)),
+      conversation: {
+        ...boundAssert.conversation,
+        llmJudge: (opts) => trackBoundAssertion(boundAssert.conversation.llmJudge(opts)),
+        consistency: (opts) => trackBoundAssertion(boundAssert.conversation.consistency(opts)),
+      },
     };
 
     // Also bind global assert for backward compat (works when same module instance)
-    _bindGlobalAssert(collector, this.llmProvider, this.options.agentProfile);
+    _bindGlobalAssert(
+      collector,
+      judgeProvider,
+      this.options.agentProfile,
+      turns,
+      judges,
+      this.options.judgeCache,
+      this.options.agentPrice
+    );
 
     const start = performance.now();
     let error: string | undefined;
@@ -100,6 +158,7 @@ export class ScenarioRunner {
           profile: this.options.agentProfile,
           scores,
           score: (name: string, value: number) => scores.set(name, value),
+          simulate: (persona, opts) => simulateConversation(agentHandle, simulationProvider, persona, opts),
         }),
         new Promise<never>((_, reject) =>
           setTimeout(() => reject(new Error(`Scenario timed out after ${timeoutMs}ms`)), timeoutMs)
@@ -117,10 +176,18 @@ export class ScenarioRunner {
     }
 
     const duration = performance.now() - start;
+
+    // Only this conversation is torn down; other scenarios in a parallel batch keep theirs
+    try {
+      await this.adapter.endConversation?.(conversationId);
+    } catch (e) {
+      error ??= `Failed to end the agent conversation: ${e instanceof Error ? e.message : String(e)}`;
+    }
+
     const assertions = collector.getResults();
-    // Don't vacuously pass: 0 assertions with no error means the test didn't actually evaluate anything
-    const passed = !error && assertions.length > 0 && assertions.every((a) => a.passed);
+    const passed = !error && isScenarioPassed(assertions, scenario.passThreshold);
     const score = calculateScore(assertions);
+    const latency = latencyStats(turnLatencies(turns));
 
     return {
       scenario: scenario.name,
@@ -130,6 +197,8 @@ export class ScenarioRunner {
       turns,
       duration,
       error,
+      efficiency: computeEfficiency(turns, this.options.agentPrice),
+      ...(latency ? { latency } : {}),
     };
   }
 
@@ -138,7 +207,7 @@ export class ScenarioRunner {
     let lastResult!: RunResult;
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      await this.adapter.reset();
+      await this.resetUnscoped();
       lastResult = await this.run(scenario);
       if (lastResult.passed || attempt === maxAttempts) return lastResult;
     }
@@ -146,13 +215,37 @@ export class ScenarioRunner {
     return lastResult;
   }
 
+  private async runSampled(scenario: Scenario): Promise<RunResult> {
+    const samples = this.options.samples ?? scenario.samples ?? 1;
+    if (samples <= 1) return this.runWithRetry(scenario);
+
+    // Samples are not retried: retrying failures would hide the flakiness being measured
+    const runs: RunResult[] = [];
+    for (let i = 0; i < samples; i++) {
+      await this.resetUnscoped();
+      runs.push(await this.run(scenario));
+    }
+    return combineSamples(runs, scenario.passRate ?? 1);
+  }
+
+  /**
+   * Each run has its own conversation id and ends it, so adapters that support
+   * endConversation() need no reset. Others are reset as a whole, which also
+   * clears the conversations of scenarios running alongside.
+   */
+  private async resetUnscoped(): Promise<void> {
+    if (!this.adapter.endConversation) await this.adapter.reset();
+  }
+
+  /** Results for the scenarios that ran: fewer than given when the usage budget ran out */
   async runAll(scenarios: Scenario[]): Promise<RunResult[]> {
     const parallelism = this.options.parallelism ?? 1;
 
     if (parallelism <= 1) {
       const results: RunResult[] = [];
       for (const scenario of scenarios) {
-        results.push(await this.runWithRetry(scenario));
+        if (this.options.usage?.exceeded) break;
+        results.push(await this.runSampled(scenario));
       }
       return results;
     }
@@ -160,9 +253,10 @@ export class ScenarioRunner {
     // Run in batches of `parallelism`
     const results: RunResult[] = [];
     for (let i = 0; i < scenarios.length; i += parallelism) {
+      if (this.options.usage?.exceeded) break;
       const batch = scenarios.slice(i, i + parallelism);
       const batchResults = await Promise.all(
-        batch.map((s) => this.runWithRetry(s))
+        batch.map((s) => this.runSampled(s))
       );
       results.push(...batchResults);
     }
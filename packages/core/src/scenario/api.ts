@@ -1,7 +1,7 @@
-import type { Persona, PersonaMessage, Scenario, ScenarioFn } from "./types.js";
+import type { Persona, PersonaMessage, Scenario, ScenarioFn, ScenarioOptions } from "./types.js";
 
-export function scenario(name: string, fn: ScenarioFn): Scenario {
-  return { name, fn };
+export function scenario(name: string, fn: ScenarioFn, options?: ScenarioOptions): Scenario {
+  return { name, fn, ...options };
 }
 
 export function persona(opts: Omit<Persona, "says">): Persona {
@@ -0,0 +1,30 @@
+import type { ModelPrice } from "../llm/usage.js";
+import type { EfficiencyStats, TurnRecord } from "./types.js";
+
+/** Sum token usage and tool calls over the agent's turns; cost needs the agent model's price */
+export function computeEfficiency(turns: TurnRecord[], price?: ModelPrice): EfficiencyStats {
+  const tokens = { input: 0, output: 0, total: 0 };
+  let tokenReports = 0;
+  let toolCalls = 0;
+
+  for (const t of turns) {
+    if (t.role === "persona") continue;
+    toolCalls += t.toolCalls?.length ?? 0;
+    if (t.tokenUsage) {
+      tokenReports++;
+      tokens.input += t.tokenUsage.input;
+      tokens.output += t.tokenUsage.output;
+      tokens.total += t.tokenUsage.total;
+    }
+  }
+
+  return {
+    tokens,
+    tokenReports,
+    ...(price && tokenReports > 0
+      ? { cost: (tokens.input * price.input + tokens.output * price.output) / 1_000_000 }
+      : {}),
+    toolCalls,
+    turns: turns.filter((t) => t.role === "persona").length,
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { latencyStats, percentile, runLatency, turnLatencies } from "./latency.js";
+import type { RunResult, TurnRecord } from "./types.js";
+
+function turns(...latencies: (number | undefined)[]): TurnRecord[] {
+  return latencies.flatMap((latencyMs, i) => [
+    { role: "persona" as const, message: `q${i}`, timestamp: i * 2 },
+    { role: "agent" as const, message: `a${i}`, timestamp: i * 2 + 1, ...(latencyMs !== undefined ? { latencyMs } : {}) },
+  ]);
+}
+
+describe("percentile", () => {
+  it("interpolates between the closest ranks", () => {
+    const sorted = [100, 200, 300, 400];
+    expect(percentile(sorted, 0)).toBe(100);
+    expect(percentile(sorted, 50)).toBe(250);
+    expect(percentile(sorted, 90)).toBeCloseTo(370);
+    expect(percentile(sorted, 100)).toBe(400);
+  });
+
+  it("handles empty and single-value inputs", () => {
+    expect(percentile([], 50)).toBe(0);
+    expect(percentile([42], 99)).toBe(42);
+  });
+});
+
+describe("latencyStats", () => {
+  it("sorts before taking percentiles", () => {
+    expect(latencyStats([500, 100, 300])).toEqual({ count: 3, p50: 300, p90: 460, p99: 496, max: 500 });
+  });
+
+  it("is undefined without measurements", () => {
+    expect(latencyStats([])).toBeUndefined();
+  });
+});
+
+describe("turnLatencies", () => {
+  it("takes the measured agent turns only", () => {
+    expect(turnLatencies(turns(120, undefined, 80))).toEqual([120, 80]);
+  });
+});
+
+describe("runLatency", () => {
+  it("pools every agent turn of the run, including each sample of sampled scenarios", () => {
+    const plain: RunResult = {
+      scenario: "plain",
+      passed: true,
+      score: 1,
+      assertions: [],
+      turns: turns(100),
+      duration: 100,
+    };
+    const sampled: RunResult = {
+      ...plain,
+      scenario: "sampled",
+      // The representative sample's turns are one of the samples; they must not count twice
+      turns: turns(200),
+      samples: {
+        count: 2,
+        passed: 2,
+        passRate: 1,
+        passRateInterval: [0.34, 1],
+        requiredPassRate: 1,
+        meanScore: 1,
+        scoreStdDev: 0,
+        flakiness: "stable-pass",
+        results: [
+          { passed: true, score: 1, assertions: [], turns: turns(200), duration: 50 },
+          { passed: true, score: 1, assertions: [], turns: turns(300, 400), duration: 50 },
+        ],
+      },
+    };
+
+    expect(runLatency([plain, sampled])).toMatchObject({ count: 4, max: 400, p50: 250 });
+    expect(runLatency([])).toBeUndefined();
+  });
+});
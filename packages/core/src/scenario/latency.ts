@@ -0,0 +1,35 @@
+import type { LatencyStats, RunResult, TurnRecord } from "./types.js";
+
+/** Linear interpolation between closest ranks, on values sorted ascending */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function latencyStats(latencies: number[]): LatencyStats | undefined {
+  if (latencies.length === 0) return undefined;
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+export function turnLatencies(turns: TurnRecord[]): number[] {
+  return turns.flatMap((t) => (t.role === "agent" && t.latencyMs !== undefined ? [t.latencyMs] : []));
+}
+
+/** Percentiles over every agent turn of the run, including each sample of sampled scenarios */
+export function runLatency(results: RunResult[]): LatencyStats | undefined {
+  return latencyStats(
+    results.flatMap((r) =>
+      r.samples ? r.samples.results.flatMap((s) => turnLatencies(s.turns)) : turnLatencies(r.turns)
+    )
+  );
+}
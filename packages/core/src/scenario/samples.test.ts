@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { combineSamples, mean, meanEfficiency, stdDev, wilsonInterval } from "./samples.js";
+import type { RunResult } from "./types.js";
+
+function run(passed: boolean, score: number, overrides: Partial<RunResult> = {}): RunResult {
+  return { scenario: "refund", passed, score, assertions: [], turns: [], duration: 100, ...overrides };
+}
+
+describe("wilsonInterval", () => {
+  it("matches the published interval for 8 of 10", () => {
+    const [low, high] = wilsonInterval(8, 10);
+    expect(low).toBeCloseTo(0.4902, 4);
+    expect(high).toBeCloseTo(0.9433, 4);
+  });
+
+  it("stays within 0-1 at the extremes", () => {
+    const [low, high] = wilsonInterval(3, 3);
+    expect(high).toBe(1);
+    expect(low).toBeGreaterThan(0.4);
+    expect(wilsonInterval(0, 3)[0]).toBe(0);
+  });
+
+  it("is the whole range without samples", () => {
+    expect(wilsonInterval(0, 0)).toEqual([0, 1]);
+  });
+
+  it("narrows as the sample count grows", () => {
+    const [smallLow, smallHigh] = wilsonInterval(5, 10);
+    const [largeLow, largeHigh] = wilsonInterval(50, 100);
+    expect(largeHigh - largeLow).toBeLessThan(smallHigh - smallLow);
+  });
+});
+
+describe("mean and stdDev", () => {
+  it("handles empty and single-value inputs", () => {
+    expect(mean([])).toBe(0);
+    expect(stdDev([])).toBe(0);
+    expect(stdDev([4])).toBe(0);
+  });
+
+  it("uses the sample standard deviation", () => {
+    expect(mean([2, 4, 4, 4, 5, 5, 7, 9])).toBe(5);
+    expect(stdDev([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(2.138, 3);
+  });
+});
+
+describe("meanEfficiency", () => {
+  const stats = (total: number, cost?: number) => ({
+    tokens: { input: total / 2, output: total / 2, total },
+    tokenReports: 1,
+    ...(cost !== undefined ? { cost } : {}),
+    toolCalls: 2,
+    turns: 3,
+  });
+
+  it("averages every field", () => {
+    expect(meanEfficiency([stats(100, 0.01), stats(300, 0.03)])).toEqual({
+      tokens: { input: 100, output: 100, total: 200 },
+      tokenReports: 1,
+      cost: 0.02,
+      toolCalls: 2,
+      turns: 3,
+    });
+  });
+
+  it("leaves cost out unless every sample has one", () => {
+    expect(meanEfficiency([stats(100, 0.01), stats(300)]).cost).toBeUndefined();
+  });
+});
+
+describe("combineSamples", () => {
+  it("passes on the required pass rate and reports a flaky scenario", () => {
+    const combined = combineSamples([run(true, 1), run(false, 0.5), run(true, 1), run(true, 0.9)], 0.75);
+
+    expect(combined.passed).toBe(true);
+    expect(combined.score).toBeCloseTo(0.85);
+    expect(combined.duration).toBe(400);
+    expect(combined.samples).toMatchObject({ count: 4, passed: 3, passRate: 0.75, flakiness: "flaky" });
+    expect(combined.samples!.passRateInterval).toEqual(wilsonInterval(3, 4));
+  });
+
+  it("fails below the required pass rate and keeps the failing sample's details", () => {
+    const failing = run(false, 0.2, { error: "timed out" });
+    const combined = combineSamples([run(true, 1), failing, run(false, 0.4)], 0.9);
+
+    expect(combined.passed).toBe(false);
+    expect(combined.error).toBe("timed out");
+    expect(combined.samples!.results[1]).toMatchObject({ passed: false, error: "timed out" });
+  });
+
+  it("labels stable results", () => {
+    expect(combineSamples([run(true, 1), run(true, 1)], 1).samples!.flakiness).toBe("stable-pass");
+    expect(combineSamples([run(false, 0), run(false, 0)], 0.5).samples!.flakiness).toBe("stable-fail");
+  });
+
+  it("pools the latency of every sample's agent turns", () => {
+    const turns = (ms: number): RunResult["turns"] => [
+      { role: "persona", message: "hi", timestamp: 0 },
+      { role: "agent", message: "hello", timestamp: 1, latencyMs: ms },
+    ];
+    const combined = combineSamples([run(true, 1, { turns: turns(100) }), run(true, 1, { turns: turns(300) })], 1);
+    expect(combined.latency).toMatchObject({ count: 2, p50: 200, max: 300 });
+  });
+});
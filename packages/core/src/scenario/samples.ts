@@ -0,0 +1,89 @@
+import type { EfficiencyStats, RunResult, SampleResult, SampleStats } from "./types.js";
+import { latencyStats, turnLatencies } from "./latency.js";
+
+/** z for a two-sided 95% confidence interval */
+const Z_95 = 1.96;
+
+/** Wilson score interval for a pass rate; unlike the normal approximation it stays within 0-1 for small N */
+export function wilsonInterval(passed: number, count: number, z = Z_95): [number, number] {
+  if (count === 0) return [0, 1];
+  const p = passed / count;
+  const z2 = z * z;
+  const denominator = 1 + z2 / count;
+  const center = (p + z2 / (2 * count)) / denominator;
+  const half = (z * Math.sqrt((p * (1 - p)) / count + z2 / (4 * count * count))) / denominator;
+  return [Math.max(0, center - half), Math.min(1, center + half)];
+}
+
+export function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/** Sample standard deviation (n - 1) */
+export function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+/** Per-field mean of sampled runs; cost only when every sample has one */
+export function meanEfficiency(stats: EfficiencyStats[]): EfficiencyStats {
+  const costs = stats.flatMap((s) => (s.cost !== undefined ? [s.cost] : []));
+  return {
+    tokens: {
+      input: mean(stats.map((s) => s.tokens.input)),
+      output: mean(stats.map((s) => s.tokens.output)),
+      total: mean(stats.map((s) => s.tokens.total)),
+    },
+    tokenReports: mean(stats.map((s) => s.tokenReports)),
+    ...(costs.length === stats.length ? { cost: mean(costs) } : {}),
+    toolCalls: mean(stats.map((s) => s.toolCalls)),
+    turns: mean(stats.map((s) => s.turns)),
+  };
+}
+
+/**
+ * Combine the runs of one scenario into a single RunResult. It passes when
+ * the pass rate reaches `requiredPassRate`; its score is the mean score.
+ * Assertions and turns come from the first failing sample, so reports show
+ * what went wrong, or from the first sample when all passed.
+ */
+export function combineSamples(runs: RunResult[], requiredPassRate: number): RunResult {
+  const results: SampleResult[] = runs.map((r) => ({
+    passed: r.passed,
+    score: r.score,
+    assertions: r.assertions,
+    turns: r.turns,
+    duration: r.duration,
+    ...(r.error !== undefined ? { error: r.error } : {}),
+  }));
+
+  const passed = results.filter((r) => r.passed).length;
+  const scores = results.map((r) => r.score);
+  const passRate = passed / results.length;
+
+  const stats: SampleStats = {
+    count: results.length,
+    passed,
+    passRate,
+    passRateInterval: wilsonInterval(passed, results.length),
+    requiredPassRate,
+    meanScore: mean(scores),
+    scoreStdDev: stdDev(scores),
+    flakiness: passed === results.length ? "stable-pass" : passed === 0 ? "stable-fail" : "flaky",
+    results,
+  };
+
+  const representative = runs.find((r) => !r.passed) ?? runs[0];
+  const efficiency = runs.flatMap((r) => (r.efficiency ? [r.efficiency] : []));
+  const latency = latencyStats(runs.flatMap((r) => turnLatencies(r.turns)));
+  return {
+    ...representative,
+    passed: passRate >= requiredPassRate,
+    score: stats.meanScore,
+    duration: runs.reduce((sum, r) => sum + r.duration, 0),
+    samples: stats,
+    ...(efficiency.length === runs.length ? { efficiency: meanEfficiency(efficiency) } : {}),
+    ...(latency ? { latency } : {}),
+  };
+}
@@ -0,0 +1,141 @@
+import type { AgentResponse } from "../adapter/interface.js";
+import type { LLMProvider } from "../llm/provider.js";
+import type {
+  AgentHandle,
+  Persona,
+  SimulateOptions,
+  SimulationResult,
+  SimulationStopReason,
+  Turn,
+} from "./types.js";
+import { SIMULATED_USER_SYSTEM_PROMPT } from "./prompts.js";
+
+const DEFAULT_MAX_TURNS = 6;
+const DEFAULT_TEMPERATURE = 0.7;
+
+interface PersonaMove {
+  status: "continue" | "goal_met" | "agent_ended";
+  message: string;
+}
+
+/**
+ * Drive a conversation with the agent using the LLM as the persona. Each
+ * persona message goes through the scenario's agent handle, so turns are
+ * recorded like hand-written ones.
+ */
+export async function simulateConversation(
+  agent: AgentHandle,
+  llmProvider: LLMProvider | undefined,
+  persona: Persona,
+  opts: SimulateOptions
+): Promise<SimulationResult> {
+  if (!llmProvider) {
+    throw new Error(
+      "ctx.simulate requires an LLM provider. Configure one in fabrik.config.ts under llm.provider."
+    );
+  }
+
+  const maxTurns = opts.maxTurns ?? DEFAULT_MAX_TURNS;
+  const transcript: Turn[] = [];
+  const responses: AgentResponse[] = [];
+  let stopReason: SimulationStopReason = "max-turns";
+  let goalMet = false;
+
+  // One move past maxTurns lets the persona judge whether the last reply met its goal
+  for (let turn = 0; turn <= maxTurns; turn++) {
+    const move =
+      turn === 0 && opts.opening !== undefined
+        ? { status: "continue" as const, message: opts.opening }
+        : await nextMove(llmProvider, persona, opts, transcript, turn, maxTurns);
+
+    if (move.status === "goal_met") {
+      goalMet = true;
+      stopReason = "goal-met";
+      break;
+    }
+    if (move.status === "agent_ended") {
+      stopReason = "agent-ended";
+      break;
+    }
+    if (turn === maxTurns) break;
+
+    transcript.push({ role: "persona", message: move.message });
+    const response = await agent.send(persona.says(move.message));
+    transcript.push({ role: "agent", message: response.text });
+    responses.push(response);
+
+    if (opts.stopWhen && (await opts.stopWhen(response, transcript))) {
+      stopReason = "stop-when";
+      break;
+    }
+  }
+
+  return { transcript, responses, lastResponse: responses.at(-1), goalMet, stopReason };
+}
+
+async function nextMove(
+  llmProvider: LLMProvider,
+  persona: Persona,
+  opts: SimulateOptions,
+  transcript: Turn[],
+  turn: number,
+  maxTurns: number
+): Promise<PersonaMove> {
+  const conversation =
+    transcript.length === 0
+      ? "(no messages yet — write your opening message)"
+      : transcript.map((t) => `${t.role === "persona" ? "YOU" : "AGENT"}: ${t.message}`).join("\n\n");
+  const position =
+    turn < maxTurns
+      ? `You are about to send message ${turn + 1} of at most ${maxTurns}.`
+      : "You have no messages left. Decide only whether your goal was met (goal_met) or not (continue).";
+
+  const response = await llmProvider.generate({
+    messages: [
+      { role: "system", content: SIMULATED_USER_SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: `${describePersona(persona)}\nYOUR GOAL: ${opts.goal}\n\nCONVERSATION SO FAR:\n${conversation}\n\n${position}`,
+      },
+    ],
+    temperature: opts.temperature ?? DEFAULT_TEMPERATURE,
+  });
+
+  return parseMove(response.text, turn === 0, turn === maxTurns);
+}
+
+function describePersona(persona: Persona): string {
+  const lines = [`YOU ARE: ${persona.name ? `${persona.name}, ` : ""}${persona.role}`];
+  if (persona.tone) lines.push(`Tone: ${persona.tone}`);
+  if (persona.backstory) lines.push(`Backstory: ${persona.backstory}`);
+  if (persona.context && Object.keys(persona.context).length > 0) {
+    lines.push(`What you know: ${JSON.stringify(persona.context)}`);
+  }
+  return lines.join("\n");
+}
+
+/** Parse the persona LLM's JSON reply. Anything that isn't JSON is taken as the message itself. */
+function parseMove(text: string, opening: boolean, final: boolean): PersonaMove {
+  let body = text.trim();
+  if (body.startsWith("```")) {
+    body = body.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return { status: "continue", message: text.trim() };
+  }
+
+  const message = typeof parsed.message === "string" ? parsed.message.trim() : "";
+  // Nothing has happened before the opening message, so it can't end the conversation
+  if (!opening && (parsed.status === "goal_met" || parsed.status === "agent_ended")) {
+    return { status: parsed.status, message };
+  }
+  // The final move only judges the goal, so it needs no message
+  if (!message && !final) {
+    throw new Error(`Simulated user returned no message: ${text.slice(0, 200)}`);
+  }
+  return { status: "continue", message };
+}
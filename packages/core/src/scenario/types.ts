@@ -1,6 +1,7 @@
-import type { AgentResponse } from "../adapter/interface.js";
+import type { AgentResponse, TokenUsage } from "../adapter/interface.js";
 import type { AgentProfile } from "../discovery/agent-profile.js";
 import type { FabrikAssert } from "../assert/api.js";
+import type { AssertionResult } from "../assert/types.js";
 
 export interface Persona {
   role: string;
@@ -30,39 +31,119 @@ export interface TurnRecord {
   timestamp: number;
   latencyMs?: number;
   toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+  /** Transport retries the adapter needed for this turn — flaky infrastructure rather than agent behaviour */
+  retries?: number;
+  /** Tokens the agent reported for this turn */
+  tokenUsage?: TokenUsage;
+}
+
+/** What the agent spent on a scenario, summed over every response */
+export interface EfficiencyStats {
+  /** Responses without token usage count as zero */
+  tokens: TokenUsage;
+  /** Agent responses that reported token usage */
+  tokenReports: number;
+  /** Estimated USD, when the agent's model is in the price table */
+  cost?: number;
+  toolCalls: number;
+  /** User (persona) messages sent before the scenario ended */
+  turns: number;
+}
+
+/** Agent response latency percentiles, in ms */
+export interface LatencyStats {
+  /** Agent turns measured */
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
 }
 
 export interface AgentHandle {
   send(message: string | PersonaMessage): Promise<AgentResponse>;
 }
 
+export interface SimulateOptions {
+  /** What the simulated user is trying to get done */
+  goal: string;
+  /** Cap on messages the persona sends (default 6) */
+  maxTurns?: number;
+  /** Stop early once this returns true for an agent response */
+  stopWhen?: (response: AgentResponse, transcript: Turn[]) => boolean | Promise<boolean>;
+  /** Send this as the first message instead of generating one */
+  opening?: string;
+  /** Sampling temperature for the simulated user (default 0.7) */
+  temperature?: number;
+}
+
+export type SimulationStopReason = "goal-met" | "agent-ended" | "stop-when" | "max-turns";
+
+export interface SimulationResult {
+  transcript: Turn[];
+  /** Agent responses in order, for assertions */
+  responses: AgentResponse[];
+  lastResponse?: AgentResponse;
+  /** Whether the simulated user judged its goal met */
+  goalMet: boolean;
+  stopReason: SimulationStopReason;
+}
+
 export interface ScenarioContext {
   agent: AgentHandle;
   assert: FabrikAssert;
   profile?: AgentProfile;
   scores: Map<string, number>;
   score(name: string, value: number): void;
+  /** Let the LLM role-play `persona` against the agent until the goal is met, the agent ends the conversation or maxTurns is hit */
+  simulate(persona: Persona, opts: SimulateOptions): Promise<SimulationResult>;
 }
 
 export type ScenarioFn = (ctx: ScenarioContext) => Promise<void>;
 
-export interface Scenario {
+export interface ScenarioOptions {
+  /** Pass when the weighted score reaches this (0-1) instead of requiring every assertion to pass */
+  passThreshold?: number;
+  /** Run the scenario this many times and judge it on its pass rate (overridden by --samples) */
+  samples?: number;
+  /** Share of samples that must pass (default 1) */
+  passRate?: number;
+}
+
+export interface Scenario extends ScenarioOptions {
   name: string;
   tags?: string[];
   fn: ScenarioFn;
   filePath?: string;
 }
 
-export interface AssertionResult {
-  type: string;
+export type { AssertionResult } from "../assert/types.js";
+
+/** One run of a sampled scenario */
+export interface SampleResult {
   passed: boolean;
-  expected?: unknown;
-  actual?: unknown;
-  reasoning?: string;
-  latencyMs?: number;
+  score: number;
+  assertions: AssertionResult[];
+  turns: TurnRecord[];
+  duration: number;
   error?: string;
 }
 
+export type Flakiness = "stable-pass" | "stable-fail" | "flaky";
+
+export interface SampleStats {
+  count: number;
+  passed: number;
+  passRate: number;
+  /** 95% Wilson confidence interval for the pass rate */
+  passRateInterval: [number, number];
+  requiredPassRate: number;
+  meanScore: number;
+  scoreStdDev: number;
+  flakiness: Flakiness;
+  results: SampleResult[];
+}
+
 export interface RunResult {
   scenario: string;
   passed: boolean;
@@ -71,4 +152,10 @@ export interface RunResult {
   turns: TurnRecord[];
   duration: number;
   error?: string;
+  /** Per-sample results and statistics when the scenario ran more than once */
+  samples?: SampleStats;
+  /** Agent tokens, cost, tool calls and turns; the mean over samples when sampled */
+  efficiency?: EfficiencyStats;
+  /** Over every agent turn, of every sample when sampled. Absent when no turn was measured. */
+  latency?: LatencyStats;
 }
@@ -32,6 +32,27 @@ export function validateScenario(obj: unknown): ValidationResult {
     }
   }
 
+  if (scenario.passThreshold !== undefined) {
+    const threshold = scenario.passThreshold;
+    if (typeof threshold !== "number" || threshold < 0 || threshold > 1) {
+      errors.push("'passThreshold' must be a number between 0 and 1");
+    }
+  }
+
+  if (scenario.samples !== undefined) {
+    const samples = scenario.samples;
+    if (typeof samples !== "number" || !Number.isInteger(samples) || samples < 1) {
+      errors.push("'samples' must be a positive integer");
+    }
+  }
+
+  if (scenario.passRate !== undefined) {
+    const passRate = scenario.passRate;
+    if (typeof passRate !== "number" || passRate < 0 || passRate > 1) {
+      errors.push("'passRate' must be a number between 0 and 1");
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -0,0 +1,110 @@
+import Database from "better-sqlite3";
+import { createHash } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+export interface JudgeCacheOptions {
+  /** Entries older than this are ignored and evicted. Default 7 days. */
+  ttlMs?: number;
+  /** Least recently used entries beyond this are evicted. Default 10000. */
+  maxEntries?: number;
+}
+
+export interface JudgeCacheKey {
+  provider: string;
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  temperature: number;
+}
+
+export interface JudgeCacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+}
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+/**
+ * Content-addressed cache of validated judge output, so an unchanged agent
+ * response isn't judged (and paid for) twice. Keys hash the provider, model,
+ * prompts and temperature.
+ */
+export class JudgeCache {
+  private db: Database.Database;
+  private ttlMs: number;
+  private maxEntries: number;
+  private counters: JudgeCacheStats = { hits: 0, misses: 0, writes: 0 };
+
+  constructor(dbPath: string, options?: JudgeCacheOptions) {
+    mkdirSync(dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.ttlMs = options?.ttlMs ?? DEFAULT_TTL_MS;
+    this.maxEntries = options?.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS judge_cache (
+        key        TEXT PRIMARY KEY,
+        value      TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        used_at    INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_judge_cache_used_at ON judge_cache(used_at);
+    `);
+    this.evict();
+  }
+
+  static hashKey(key: JudgeCacheKey): string {
+    return createHash("sha256").update(JSON.stringify(key)).digest("hex");
+  }
+
+  /** The cached value, unless it is missing, expired or rejected by `accept` (e.g. the judge's schema changed) */
+  get(key: JudgeCacheKey, accept: (value: unknown) => boolean = () => true): unknown | undefined {
+    const hash = JudgeCache.hashKey(key);
+    const row = this.db
+      .prepare("SELECT value, created_at FROM judge_cache WHERE key = ?")
+      .get(hash) as { value: string; created_at: number } | undefined;
+
+    const value = row && row.created_at >= Date.now() - this.ttlMs ? JSON.parse(row.value) : undefined;
+    if (value === undefined || !accept(value)) {
+      this.counters.misses++;
+      return undefined;
+    }
+    this.db.prepare("UPDATE judge_cache SET used_at = ? WHERE key = ?").run(Date.now(), hash);
+    this.counters.hits++;
+    return value;
+  }
+
+  set(key: JudgeCacheKey, value: unknown): void {
+    const now = Date.now();
+    this.db
+      .prepare("INSERT OR REPLACE INTO judge_cache (key, value, created_at, used_at) VALUES (?, ?, ?, ?)")
+      .run(JudgeCache.hashKey(key), JSON.stringify(value), now, now);
+    this.counters.writes++;
+  }
+
+  stats(): JudgeCacheStats {
+    return { ...this.counters };
+  }
+
+  /** Drop expired entries, then the least recently used beyond maxEntries */
+  evict(): void {
+    this.db.prepare("DELETE FROM judge_cache WHERE created_at < ?").run(Date.now() - this.ttlMs);
+    this.db
+      .prepare(
+        "DELETE FROM judge_cache WHERE key NOT IN (SELECT key FROM judge_cache ORDER BY used_at DESC LIMIT ?)"
+      )
+      .run(this.maxEntries);
+  }
+
+  clear(): void {
+    this.db.exec("DELETE FROM judge_cache");
+  }
+
+  close(): void {
+    this.evict();
+    this.db.close();
+  }
+}
@@ -1,7 +1,16 @@
 import Database from "better-sqlite3";
 import { randomUUID } from "node:crypto";
-import type { RunResult } from "../scenario/types.js";
+import type { LatencyStats, RunResult } from "../scenario/types.js";
 import type { TraceStore, RunMeta, StoredRun } from "./trace.js";
+import type { UsageReport } from "../llm/usage.js";
+import { isRecord } from "../util.js";
+
+interface RunRow {
+  id: string;
+  version: string;
+  created_at: string;
+  meta: string | null;
+}
 
 export class SqliteTraceStore implements TraceStore {
   private db: Database.Database;
@@ -72,13 +81,14 @@ export class SqliteTraceStore implements TraceStore {
       passedCount,
       failedCount: results.length - passedCount,
       totalDuration,
+      ...readExtraMeta(extraMeta),
     };
   }
 
   loadRun(runId: string): StoredRun | null {
     const run = this.db
       .prepare("SELECT * FROM runs WHERE id = ?")
-      .get(runId) as { id: string; version: string; created_at: string } | undefined;
+      .get(runId) as RunRow | undefined;
 
     if (!run) return null;
 
@@ -97,7 +107,7 @@ export class SqliteTraceStore implements TraceStore {
   loadByVersion(version: string): StoredRun | null {
     const run = this.db
       .prepare("SELECT * FROM runs WHERE version = ? ORDER BY created_at DESC LIMIT 1")
-      .get(version) as { id: string; version: string; created_at: string } | undefined;
+      .get(version) as RunRow | undefined;
 
     if (!run) return null;
     return this.loadRun(run.id);
@@ -106,7 +116,7 @@ export class SqliteTraceStore implements TraceStore {
   listRuns(limit = 50): RunMeta[] {
     const runs = this.db
       .prepare("SELECT * FROM runs ORDER BY created_at DESC LIMIT ?")
-      .all(limit) as { id: string; version: string; created_at: string }[];
+      .all(limit) as RunRow[];
 
     return runs.map((run) => {
       const stats = this.db
@@ -127,6 +137,7 @@ export class SqliteTraceStore implements TraceStore {
         passedCount: stats.passed ?? 0,
         failedCount: stats.failed ?? 0,
         totalDuration: durRow.dur ?? 0,
+        ...readExtraMeta(parseMeta(run.meta)),
       };
     });
   }
@@ -147,10 +158,7 @@ export class SqliteTraceStore implements TraceStore {
     this.db.close();
   }
 
-  private buildMeta(
-    run: { id: string; version: string; created_at: string },
-    results: RunResult[]
-  ): RunMeta {
+  private buildMeta(run: RunRow, results: RunResult[]): RunMeta {
     return {
       id: run.id,
       version: run.version,
@@ -159,6 +167,25 @@ export class SqliteTraceStore implements TraceStore {
       passedCount: results.filter((r) => r.passed).length,
       failedCount: results.filter((r) => !r.passed).length,
       totalDuration: results.reduce((sum, r) => sum + r.duration, 0),
+      ...readExtraMeta(parseMeta(run.meta)),
     };
   }
 }
+
+function parseMeta(json: string | null): unknown {
+  if (!json) return undefined;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
+
+/** The run-level stats that `fabrik run` saves in the meta column */
+function readExtraMeta(meta: unknown): Pick<RunMeta, "usage" | "latency"> {
+  if (!isRecord(meta)) return {};
+  return {
+    ...(isRecord(meta.usage) ? { usage: meta.usage as unknown as UsageReport } : {}),
+    ...(isRecord(meta.latency) ? { latency: meta.latency as unknown as LatencyStats } : {}),
+  };
+}
@@ -1,4 +1,5 @@
-import type { RunResult } from "../scenario/types.js";
+import type { LatencyStats, RunResult } from "../scenario/types.js";
+import type { UsageReport } from "../llm/usage.js";
 
 export interface RunMeta {
   id: string;
@@ -8,6 +9,10 @@ export interface RunMeta {
   passedCount: number;
   failedCount: number;
   totalDuration: number;
+  /** LLM usage and cost of the run, when it was saved with one */
+  usage?: UsageReport;
+  /** Agent turn latency percentiles over the whole run */
+  latency?: LatencyStats;
 }
 
 export interface StoredRun {